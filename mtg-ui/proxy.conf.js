@@ -1,4 +1,5 @@
-module.exports = [
+// With MOCK_API=true the SSR server answers /api itself (see src/mock-api.ts).
+module.exports = process.env['MOCK_API'] === 'true' ? [] : [
   {
     context: ['/api'],
     target: 'http://127.0.0.1:8080',
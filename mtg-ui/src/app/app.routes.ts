@@ -1,22 +1,53 @@
 import { Routes } from '@angular/router';
+import { authGuard } from './services/auth.guard';
+import { roleGuard } from './services/role.guard';
 
 export const routes: Routes = [
   {
     path: 'decks',
+    canActivate: [authGuard],
     loadComponent: () =>
       import('./features/decks/decks.component')
         .then(m => m.DecksComponent)
   },
 
+  {
+    path: 'decks/:deckKey',
+    canActivate: [authGuard],
+    loadComponent: () =>
+      import('./features/deck-detail/deck-detail.component')
+        .then(m => m.DeckDetailComponent)
+  },
+
+  {
+    path: 'decks/:deckKey/edit',
+    canActivate: [authGuard, roleGuard],
+    data: { role: 'admin', editing: true },
+    loadComponent: () =>
+      import('./features/deck-detail/deck-detail.component')
+        .then(m => m.DeckDetailComponent)
+  },
+
   {
     path: 'players',
+    canActivate: [authGuard],
     loadComponent: () =>
       import('./features/players/players.component')
         .then(m => m.PlayersComponent)
   },
 
+  {
+    path: 'players/:playerKey',
+    canActivate: [authGuard],
+    loadComponent: () =>
+      import('./features/player-profile/player-profile.component')
+        .then(m => m.PlayerProfileComponent)
+  },
+
   {
     path: 'create-game',
+    canActivate: [authGuard, roleGuard],
+    data: { role: 'admin' },
     loadComponent: () =>
       import('./features/create-game/create-game.component')
         .then(m => m.CreateGameComponent)
@@ -24,10 +55,68 @@ export const routes: Routes = [
 
   {
     path: 'match-history',
+    canActivate: [authGuard],
     loadComponent: () =>
       import('./features/match-history/match-history.component')
         .then(m => m.MatchHistoryComponent)
   },
 
+  {
+    path: 'leaderboard',
+    canActivate: [authGuard],
+    loadComponent: () =>
+      import('./features/leaderboard/leaderboard.component')
+        .then(m => m.LeaderboardComponent)
+  },
+
+  {
+    path: 'head-to-head',
+    canActivate: [authGuard],
+    loadComponent: () =>
+      import('./features/head-to-head/head-to-head.component')
+        .then(m => m.HeadToHeadComponent)
+  },
+
+  {
+    path: 'matchups',
+    canActivate: [authGuard],
+    loadComponent: () =>
+      import('./features/deck-matchups/deck-matchups.component')
+        .then(m => m.DeckMatchupsComponent)
+  },
+
+  {
+    path: 'reconcile',
+    canActivate: [authGuard, roleGuard],
+    data: { role: 'admin' },
+    loadComponent: () =>
+      import('./features/reconcile-stats/reconcile-stats.component')
+        .then(m => m.ReconcileStatsComponent)
+  },
+
+  {
+    path: 'cards',
+    canActivate: [authGuard],
+    loadComponent: () =>
+      import('./features/cards/cards.component')
+        .then(m => m.CardsComponent)
+  },
+
+  {
+    path: 'cards/edit',
+    canActivate: [authGuard, roleGuard],
+    data: { role: 'admin', editing: true },
+    loadComponent: () =>
+      import('./features/cards/cards.component')
+        .then(m => m.CardsComponent)
+  },
+
+  {
+    path: 'login',
+    loadComponent: () =>
+      import('./features/login/login.component')
+        .then(m => m.LoginComponent)
+  },
+
   { path: '', pathMatch: 'full', redirectTo: 'decks' }
 ];
@@ -1,12 +1,30 @@
-import { Component, signal } from '@angular/core';
+import { Component, effect, inject, signal, untracked } from '@angular/core';
 import { RouterOutlet, RouterLink, RouterLinkActive } from '@angular/router';
+import { OfflineQueueService } from './services/offline-queue.service';
+import { AuthService } from './services/auth.service';
+import { IfRoleDirective } from './shared/directives/if-role.directive';
+import { ToastListComponent } from './shared/components/toast-list/toast-list.component';
 
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet, RouterLink, RouterLinkActive],
+  imports: [RouterOutlet, RouterLink, RouterLinkActive, IfRoleDirective, ToastListComponent],
   templateUrl: './app.html',
   styleUrl: './app.scss'
 })
 export class App {
   protected readonly title = signal('mtg-ui');
-}
\ No newline at end of file
+  protected readonly offlineQueue = inject(OfflineQueueService);
+  protected readonly auth = inject(AuthService);
+
+  constructor() {
+    effect(() => {
+      if (this.auth.isLoggedIn()) {
+        untracked(() => this.syncPending());
+      }
+    });
+  }
+
+  protected syncPending(): void {
+    this.offlineQueue.sync().subscribe();
+  }
+}
@@ -0,0 +1,263 @@
+import { Component, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { CardService } from '../../services/card.service';
+import { NotificationService } from '../../services/notification.service';
+import { normalizeColors } from '../../services/commander-validator';
+import { Card } from '../../shared/models/card.model';
+import { IfRoleDirective } from '../../shared/directives/if-role.directive';
+import { CardSearchComponent } from '../../shared/components/card-search/card-search.component';
+
+type InlineField = 'stock' | 'price';
+
+const NUMERIC_FIELDS: Array<keyof Card> = ['cardNumber', 'manaValue', 'price', 'stock'];
+/** The API addresses a card by number and set, so an edit never changes them. */
+const KEY_FIELDS: Array<keyof Card> = ['cardNumber', 'setName'];
+
+@Component({
+  selector: 'app-cards',
+  standalone: true,
+  imports: [CommonModule, RouterLink, IfRoleDirective, CardSearchComponent],
+  templateUrl: './cards.component.html',
+  styleUrls: ['./cards.component.scss']
+})
+export class CardsComponent implements OnInit {
+  title = 'Cards';
+
+  private cardService = inject(CardService);
+  private notifications = inject(NotificationService);
+  private route = inject(ActivatedRoute);
+
+  readonly pageSizeOptions = [10, 25, 50];
+  readonly conditionOptions = ['NM', 'LP', 'MP', 'HP', 'DMG'];
+
+  cards = signal<Card[]>([]);
+  isLoadingCards = signal(false);
+  page = signal(0);
+  pageSize = signal(25);
+  showForm = signal(false);
+  editingKey = signal<string | null>(null);
+  draft = signal<Card>(this.buildEmptyCard());
+  formErrorMessage = signal<string | null>(null);
+  isSaving = signal(false);
+  savingInlineKey = signal<string | null>(null);
+  highlightedKey = signal<string | null>(null);
+  /** Set on the admin-only `/cards/edit` route; the plain route is read-only. */
+  readonly editing = this.route.snapshot.data['editing'] === true;
+
+  sortedCards = computed(() =>
+    [...this.cards()].sort(
+      (a, b) => a.setName.localeCompare(b.setName) || a.cardNumber - b.cardNumber
+    )
+  );
+  pageCount = computed(() => Math.max(1, Math.ceil(this.sortedCards().length / this.pageSize())));
+  pagedCards = computed(() => {
+    const start = this.page() * this.pageSize();
+    return this.sortedCards().slice(start, start + this.pageSize());
+  });
+
+  ngOnInit(): void {
+    this.loadCards();
+  }
+
+  loadCards(): void {
+    this.isLoadingCards.set(true);
+
+    this.cardService.getAll().subscribe({
+      next: (data) => {
+        this.cards.set(data ?? []);
+        this.isLoadingCards.set(false);
+        this.setPage(this.page());
+      },
+      error: (error) => {
+        this.isLoadingCards.set(false);
+        this.notifications.error('Failed to load cards', error);
+      }
+    });
+  }
+
+  setPage(page: number): void {
+    this.page.set(Math.min(Math.max(0, page), this.pageCount() - 1));
+  }
+
+  setPageSize(value: string): void {
+    this.pageSize.set(Number(value) || this.pageSizeOptions[0]);
+    this.setPage(0);
+  }
+
+  showCard(card: Card): void {
+    const key = this.getCardKey(card);
+    const index = this.sortedCards().findIndex((item) => this.getCardKey(item) === key);
+    if (index === -1) {
+      this.notifications.info(`${card.cardName} is not in the loaded collection.`);
+      return;
+    }
+
+    this.setPage(Math.floor(index / this.pageSize()));
+    this.highlightedKey.set(key);
+  }
+
+  getCardKey(card: Card): string {
+    return `${card.cardNumber}/${card.setName.toLowerCase()}`;
+  }
+
+  openCreateForm(): void {
+    this.editingKey.set(null);
+    this.draft.set(this.buildEmptyCard());
+    this.formErrorMessage.set(null);
+    this.showForm.set(true);
+  }
+
+  openEditForm(card: Card): void {
+    this.editingKey.set(this.getCardKey(card));
+    this.draft.set({ ...card });
+    this.formErrorMessage.set(null);
+    this.showForm.set(true);
+  }
+
+  closeForm(): void {
+    this.showForm.set(false);
+    this.editingKey.set(null);
+  }
+
+  updateDraft(field: keyof Card, value: string): void {
+    if (field === 'colorIdentity') {
+      const colors = normalizeColors(value.split(''));
+      this.draft.set({ ...this.draft(), colorIdentity: value.trim() ? colors : undefined });
+      return;
+    }
+
+    if (this.editingKey() && KEY_FIELDS.includes(field)) {
+      return;
+    }
+
+    const parsed = NUMERIC_FIELDS.includes(field) ? Number(value) : value;
+    this.draft.set({ ...this.draft(), [field]: parsed });
+  }
+
+  submitCard(): void {
+    const card = this.draft();
+    const validation = this.validateCard(card);
+    if (validation) {
+      this.formErrorMessage.set(validation);
+      return;
+    }
+
+    const editingKey = this.editingKey();
+    const original = editingKey
+      ? this.cards().find((item) => this.getCardKey(item) === editingKey)
+      : undefined;
+    if (editingKey && !original) {
+      this.formErrorMessage.set('This card is no longer in the collection. Reload and try again.');
+      return;
+    }
+
+    const payload = original
+      ? { ...card, cardNumber: original.cardNumber, setName: original.setName }
+      : card;
+    const request = original
+      ? this.cardService.update(original.cardNumber, original.setName, payload)
+      : this.cardService.create(payload);
+
+    this.formErrorMessage.set(null);
+    this.isSaving.set(true);
+
+    request.subscribe({
+      next: (saved) => {
+        const result = saved ?? payload;
+        this.cards.set(
+          original
+            ? this.cards().map((item) => (item === original ? result : item))
+            : [...this.cards(), result]
+        );
+        this.isSaving.set(false);
+        this.notifications.success(`${original ? 'Updated' : 'Added'} ${result.cardName}.`);
+        this.closeForm();
+      },
+      error: (error) => {
+        this.isSaving.set(false);
+        this.notifications.error(`Failed to ${original ? 'update' : 'create'} card`, error);
+      }
+    });
+  }
+
+  saveInline(card: Card, field: InlineField, input: HTMLInputElement): void {
+    const parsed = Number(input.value);
+    if (input.value.trim() === '' || !Number.isFinite(parsed) || parsed < 0) {
+      input.value = String(card[field]);
+      return;
+    }
+    if (parsed === card[field]) {
+      return;
+    }
+
+    const key = this.getCardKey(card);
+    const updated: Card = { ...card, [field]: field === 'stock' ? Math.floor(parsed) : parsed };
+    this.savingInlineKey.set(key);
+
+    this.cardService.update(card.cardNumber, card.setName, { [field]: updated[field] }).subscribe({
+      next: (saved) => {
+        const result = saved ?? updated;
+        this.cards.set(this.cards().map((item) => (this.getCardKey(item) === key ? result : item)));
+        this.savingInlineKey.set(null);
+      },
+      error: (error) => {
+        this.savingInlineKey.set(null);
+        input.value = String(card[field]);
+        this.notifications.error(`Failed to update ${field} for ${card.cardName}`, error);
+      }
+    });
+  }
+
+  deleteCard(card: Card): void {
+    const label = `"${card.cardName}" (${card.setName} #${card.cardNumber})`;
+    if (!window.confirm(`Delete ${label}? This cannot be undone.`)) {
+      return;
+    }
+
+    const key = this.getCardKey(card);
+    this.savingInlineKey.set(key);
+
+    this.cardService.delete(card.cardNumber, card.setName).subscribe({
+      next: () => {
+        this.cards.set(this.cards().filter((item) => this.getCardKey(item) !== key));
+        this.savingInlineKey.set(null);
+        this.setPage(this.page());
+      },
+      error: (error) => {
+        this.savingInlineKey.set(null);
+        this.notifications.error('Failed to delete card', error);
+      }
+    });
+  }
+
+  private validateCard(card: Card): string | null {
+    if (!Number.isInteger(card.cardNumber) || card.cardNumber <= 0) {
+      return 'Card number must be a positive whole number.';
+    }
+    if (!card.setName.trim() || !card.cardName.trim()) {
+      return 'Set and card name are required.';
+    }
+    if (!(card.price >= 0) || !Number.isInteger(card.stock) || card.stock < 0) {
+      return 'Price and stock cannot be negative, and stock must be a whole number.';
+    }
+    const key = this.getCardKey(card);
+    if (key !== this.editingKey() && this.cards().some((item) => this.getCardKey(item) === key)) {
+      return `${card.setName} #${card.cardNumber} is already in the collection.`;
+    }
+    return null;
+  }
+
+  private buildEmptyCard(): Card {
+    return {
+      cardNumber: 0,
+      setName: '',
+      cardName: '',
+      cardType: '',
+      cardCondition: 'NM',
+      manaValue: 0,
+      price: 0,
+      stock: 1
+    };
+  }
+}
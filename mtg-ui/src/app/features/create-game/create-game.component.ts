@@ -1,13 +1,28 @@
 import { Component, OnInit, computed, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { Player, PlayerService } from '../../services/player.service';
-import { Deck, DeckService } from '../../services/deck.service';
-import { MatchRecord, MatchService } from '../../services/match.service';
-import { forkJoin, Observable, of, switchMap } from 'rxjs';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { PlayerService } from '../../services/player.service';
+import { DeckService } from '../../services/deck.service';
+import { MatchService } from '../../services/match.service';
+import { StatsLedgerService, StatsUpdateReport } from '../../services/stats-ledger.service';
+import { OfflineQueueService } from '../../services/offline-queue.service';
+import { NotificationService } from '../../services/notification.service';
+import { CardService } from '../../services/card.service';
+import { validateCommanderDeck } from '../../services/commander-validator';
+import { createSeatPlayerResolver, placementFor, toMatchSeats } from '../../services/api.adapter';
+import { buildFavoriteDeckMap, getPlayerKey } from '../../services/player-profile';
+import { Player } from '../../shared/models/player.model';
+import { Card } from '../../shared/models/card.model';
+import { Deck } from '../../shared/models/deck.model';
+import { Match, MatchSeat } from '../../shared/models/match.model';
 
 type ResultType = 'win' | 'loss' | 'tie' | '';
 type GameFormat = 'casual' | 'cedh';
 
+const MIN_SEATS = 2;
+const MAX_SEATS = 6;
+const DEFAULT_SEATS = 4;
+
 interface GameSlot {
   playerIndex: number | null;
   deckIndex: number | null;
@@ -17,7 +32,7 @@ interface GameSlot {
 @Component({
   selector: 'app-create-game',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, RouterLink],
   templateUrl: './create-game.component.html',
   styleUrls: ['./create-game.component.scss']
 })
@@ -27,23 +42,43 @@ export class CreateGameComponent implements OnInit {
   private playerService = inject(PlayerService);
   private deckService = inject(DeckService);
   private matchService = inject(MatchService);
+  private statsLedger = inject(StatsLedgerService);
+  private route = inject(ActivatedRoute);
+  private notifications = inject(NotificationService);
+  private cardService = inject(CardService);
+  offlineQueue = inject(OfflineQueueService);
 
   players = signal<Player[]>([]);
   decks = signal<Deck[]>([]);
-  matches = signal<MatchRecord[]>([]);
+  matches = signal<Match[]>([]);
+  cards = signal<Card[] | null>(null);
   pendingAutoDeckBySlot = signal<Map<number, string>>(new Map());
+  editingMatch = signal<Match | null>(null);
+  pendingEditKey = signal<string | null>(null);
 
   isLoadingPlayers = signal(false);
   isLoadingDecks = signal(false);
-  playerErrorMessage = signal<string | null>(null);
-  deckErrorMessage = signal<string | null>(null);
   submitErrorMessage = signal<string | null>(null);
   submitSuccessMessage = signal<string | null>(null);
   isSubmitting = signal(false);
 
-  slots = signal<GameSlot[]>(this.buildEmptySlots());
+  readonly seatCountOptions = Array.from({ length: MAX_SEATS - MIN_SEATS + 1 }, (_value, index) => MIN_SEATS + index);
+  slots = signal<GameSlot[]>(this.buildEmptySlots(DEFAULT_SEATS));
+  seatCount = computed(() => this.slots().length);
 
   gameFormat = signal<GameFormat>('cedh');
+  playedAtInput = signal(this.toDateTimeInput(new Date()));
+  /** Signals do not tick with the clock, so this is refreshed on focus and before saving. */
+  now = signal(Date.now());
+  maxPlayedAt = computed(() => this.toDateTimeInput(new Date(this.now())));
+
+  playedAtError = computed(() => {
+    const playedAt = new Date(this.playedAtInput());
+    if (Number.isNaN(playedAt.getTime())) {
+      return 'Enter the date and time the game was played.';
+    }
+    return playedAt.getTime() > this.now() ? 'The played time cannot be in the future.' : null;
+  });
 
   duplicatePlayers = computed(() => {
     const selected = this.slots()
@@ -56,45 +91,106 @@ export class CreateGameComponent implements OnInit {
     this.slots().every((slot) => slot.playerIndex !== null && slot.deckIndex !== null && slot.result !== '')
   );
 
-  canCreate = computed(() => this.isComplete() && !this.duplicatePlayers());
-  favoriteDeckMaps = computed(() => this.buildFavoriteDeckMaps(this.matches()));
+  hasValidOutcome = computed(() => {
+    const results = this.slots().map((slot) => slot.result);
+    if (results.every((result) => result === 'tie')) {
+      return true;
+    }
+    return results.filter((result) => result === 'win').length === 1
+      && results.every((result) => result === 'win' || result === 'loss');
+  });
+
+  notEnoughPlayers = computed(() =>
+    !this.isLoadingPlayers() && this.players().length > 0 && this.players().length < this.seatCount()
+  );
+
+  canCreate = computed(() =>
+    this.seatCount() >= MIN_SEATS &&
+    this.seatCount() <= MAX_SEATS &&
+    this.isComplete() &&
+    this.hasValidOutcome() &&
+    !this.duplicatePlayers() &&
+    !this.playedAtError() &&
+    this.unacknowledgedDecks().length === 0
+  );
+  /**
+   * Commander legality warnings per deck, in the same order as `decks`. Decks
+   * without a decklist, or all decks when the card collection could not be
+   * loaded, are not checked.
+   */
+  deckWarnings = computed(() => {
+    const cards = this.cards();
+    const cardsByKey = new Map(
+      (cards ?? []).map((card) => [`${card.cardNumber}/${card.setName.toLowerCase()}`, card])
+    );
+    return this.decks().map((deck) => {
+      if (!cards || !deck.cards?.length) {
+        return [];
+      }
+      const rows = deck.cards.map((entry) => ({
+        entry,
+        card: cardsByKey.get(`${entry.cardNumber}/${entry.setName.toLowerCase()}`)
+      }));
+      return validateCommanderDeck(rows).warnings;
+    });
+  });
+  /** Names of decks with warnings that the user has agreed to play anyway. */
+  acknowledgedDecks = signal<ReadonlySet<string>>(new Set());
+  unacknowledgedDecks = computed(() =>
+    this.slots()
+      .map((slot) => slot.deckIndex)
+      .filter(
+        (deckIndex): deckIndex is number =>
+          deckIndex !== null &&
+          this.deckWarnings()[deckIndex].length > 0 &&
+          !this.acknowledgedDecks().has(this.decks()[deckIndex].deckName)
+      )
+  );
+  favoriteDeckByKey = computed(() => buildFavoriteDeckMap(this.matches(), this.players()));
 
   ngOnInit(): void {
+    const editKey = this.route.snapshot.queryParamMap.get('edit');
+    if (editKey) {
+      this.title = 'Edit Game';
+      this.pendingEditKey.set(editKey);
+    }
+
     this.loadPlayers();
     this.loadDecks();
     this.loadMatches();
+    this.loadCards();
   }
 
   loadPlayers(): void {
     this.isLoadingPlayers.set(true);
-    this.playerErrorMessage.set(null);
 
     this.playerService.getAll().subscribe({
       next: (data) => {
         this.players.set(data ?? []);
         this.isLoadingPlayers.set(false);
         this.applyPendingAutoDecks();
+        this.applyPendingEdit();
       },
-      error: () => {
+      error: (error) => {
         this.isLoadingPlayers.set(false);
-        this.playerErrorMessage.set('Failed to load players. Check the API.');
+        this.notifications.error('Failed to load players', error);
       }
     });
   }
 
   loadDecks(): void {
     this.isLoadingDecks.set(true);
-    this.deckErrorMessage.set(null);
 
     this.deckService.getAll().subscribe({
       next: (data) => {
         this.decks.set(data ?? []);
         this.isLoadingDecks.set(false);
         this.applyPendingAutoDecks();
+        this.applyPendingEdit();
       },
-      error: () => {
+      error: (error) => {
         this.isLoadingDecks.set(false);
-        this.deckErrorMessage.set('Failed to load decks. Check the API.');
+        this.notifications.error('Failed to load decks', error);
       }
     });
   }
@@ -104,13 +200,52 @@ export class CreateGameComponent implements OnInit {
       next: (data) => {
         this.matches.set(data ?? []);
         this.applyPendingAutoDecks();
+        this.applyPendingEdit();
       },
-      error: () => {
+      error: (error) => {
         this.matches.set([]);
+        if (this.pendingEditKey()) {
+          this.pendingEditKey.set(null);
+          this.notifications.error('Failed to load the match to edit', error);
+        }
       }
     });
   }
 
+  loadCards(): void {
+    this.cardService.getAll().subscribe({
+      next: (data) => this.cards.set(data ?? []),
+      error: () => this.cards.set(null)
+    });
+  }
+
+  setSeatCount(value: string): void {
+    const count = Math.min(MAX_SEATS, Math.max(MIN_SEATS, Number(value) || DEFAULT_SEATS));
+    const current = this.slots();
+    if (count === current.length) {
+      return;
+    }
+
+    if (count < current.length) {
+      this.slots.set(current.slice(0, count));
+      const pending = new Map(this.pendingAutoDeckBySlot());
+      pending.forEach((_deckName, slotIndex) => {
+        if (slotIndex >= count) {
+          pending.delete(slotIndex);
+        }
+      });
+      this.pendingAutoDeckBySlot.set(pending);
+      return;
+    }
+
+    const tie = current.length > 0 && current.every((slot) => slot.result === 'tie');
+    const added = this.buildEmptySlots(count - current.length).map((slot) => ({
+      ...slot,
+      result: tie ? ('tie' as ResultType) : slot.result
+    }));
+    this.slots.set([...current, ...added]);
+  }
+
   updatePlayer(slotIndex: number, value: string): void {
     const playerIndex = value === '' ? null : Number(value);
     this.updateSlot(slotIndex, { playerIndex });
@@ -122,11 +257,36 @@ export class CreateGameComponent implements OnInit {
     this.applyAutoDeckForSlot(slotIndex);
   }
 
-  updateDeck(slotIndex: number, value: string): void {
-    const deckIndex = value === '' ? null : Number(value);
+  updateDeck(slotIndex: number, select: HTMLSelectElement): void {
+    const deckIndex = select.value === '' ? null : Number(select.value);
+    if (deckIndex !== null && !this.confirmDeck(deckIndex)) {
+      select.value = String(this.slots()[slotIndex].deckIndex ?? '');
+      return;
+    }
     this.updateSlot(slotIndex, { deckIndex });
   }
 
+  /**
+   * Asks before a deck that breaks the Commander rules is played. Decks filled
+   * in automatically are not asked about here; they block saving until
+   * acknowledged from the slot instead.
+   */
+  confirmDeck(deckIndex: number): boolean {
+    const deck = this.decks()[deckIndex];
+    const warnings = this.deckWarnings()[deckIndex];
+    if (warnings.length === 0 || this.acknowledgedDecks().has(deck.deckName)) {
+      return true;
+    }
+
+    const list = warnings.map((warning) => `- ${warning}`).join('\n');
+    if (!window.confirm(`${deck.deckName} is not Commander legal:\n${list}\n\nPlay it anyway?`)) {
+      return false;
+    }
+
+    this.acknowledgedDecks.set(new Set([...this.acknowledgedDecks(), deck.deckName]));
+    return true;
+  }
+
   updateResult(slotIndex: number, value: string): void {
     const result = value as ResultType;
     if (result === 'tie') {
@@ -142,7 +302,12 @@ export class CreateGameComponent implements OnInit {
     this.updateSlot(slotIndex, { result });
   }
 
+  refreshNow(): void {
+    this.now.set(Date.now());
+  }
+
   createGame(): void {
+    this.refreshNow();
     if (this.isSubmitting() || !this.canCreate()) {
       return;
     }
@@ -152,45 +317,166 @@ export class CreateGameComponent implements OnInit {
     this.isSubmitting.set(true);
 
     const payload = this.buildMatchPayload();
+    const editing = this.editingMatch();
+    if (editing) {
+      this.saveEditedMatch(editing, payload);
+      return;
+    }
 
     this.matchService.create(payload).subscribe({
-      next: () => {
-        this.updateStatsForMatch().subscribe({
-          next: () => {
+      next: (created) => {
+        this.statsLedger.apply(payload).subscribe({
+          next: (report) => {
+            if (report.failed.length > 0) {
+              this.rollBackCreatedMatch(created, report);
+              return;
+            }
             this.isSubmitting.set(false);
             this.submitSuccessMessage.set('Game saved and stats updated.');
             this.loadPlayers();
             this.loadDecks();
           },
           error: () => {
+            this.rollBackCreatedMatch(created, null);
+          }
+        });
+      },
+      error: (error) => {
+        this.isSubmitting.set(false);
+        if (this.offlineQueue.isUnreachable(error)) {
+          this.offlineQueue.enqueue(payload);
+          this.submitSuccessMessage.set(
+            'The API is unreachable, so the game was saved on this device. It will sync when the API is back.'
+          );
+          return;
+        }
+        this.notifications.error('Failed to save match', error);
+      }
+    });
+  }
+
+  discardQueued(queueId: string): void {
+    if (!window.confirm('Discard this unsynced game? It will not be saved.')) {
+      return;
+    }
+    this.offlineQueue.discard(queueId);
+  }
+
+  private saveEditedMatch(previous: Match, payload: Match): void {
+    if (previous.matchId === undefined) {
+      this.isSubmitting.set(false);
+      return;
+    }
+
+    const next: Match = { ...payload, matchId: previous.matchId };
+
+    this.matchService.update(previous.matchId, next).subscribe({
+      next: () => {
+        this.statsLedger.replace(previous, next).subscribe({
+          next: (report) => {
+            if (report.failed.length > 0) {
+              this.restoreEditedMatch(previous, report);
+              return;
+            }
             this.isSubmitting.set(false);
-            this.submitErrorMessage.set('Match saved, but failed to update stats.');
+            this.editingMatch.set(next);
+            this.submitSuccessMessage.set('Match updated and stats adjusted.');
+            this.loadPlayers();
+            this.loadDecks();
+            this.loadMatches();
+          },
+          error: () => {
+            this.restoreEditedMatch(previous, null);
           }
         });
       },
-      error: () => {
+      error: (error) => {
         this.isSubmitting.set(false);
-        this.submitErrorMessage.set('Failed to save match. Check the API.');
+        this.notifications.error('Failed to update match', error);
       }
     });
   }
 
+  private restoreEditedMatch(previous: Match, report: StatsUpdateReport | null): void {
+    const finish = (matchRestored: boolean) => {
+      this.isSubmitting.set(false);
+      this.submitErrorMessage.set(
+        this.describeRollback(
+          report,
+          matchRestored
+            ? 'The match was restored to its previous result. Try again.'
+            : 'The match could not be restored; check it in Match History and use Reconcile.'
+        )
+      );
+      this.loadPlayers();
+      this.loadDecks();
+      this.loadMatches();
+    };
+
+    this.matchService.update(previous.matchId as number, previous).subscribe({
+      next: () => finish(true),
+      error: () => finish(false)
+    });
+  }
+
+  private rollBackCreatedMatch(created: Match, report: StatsUpdateReport | null): void {
+    const finish = (matchRemoved: boolean) => {
+      this.isSubmitting.set(false);
+      this.submitErrorMessage.set(
+        this.describeRollback(
+          report,
+          matchRemoved
+            ? 'The match was removed, so nothing was saved. Try again.'
+            : 'The match could not be removed; delete it from Match History.'
+        )
+      );
+      this.loadPlayers();
+      this.loadDecks();
+      this.loadMatches();
+    };
+
+    if (created.matchId === undefined) {
+      finish(false);
+      return;
+    }
+
+    this.matchService.delete(created.matchId).subscribe({
+      next: () => finish(true),
+      error: () => finish(false)
+    });
+  }
+
+  private describeRollback(report: StatsUpdateReport | null, outcome: string): string {
+    const parts = [
+      report
+        ? `Failed to update stats for ${report.failed.join(', ')}.`
+        : 'Failed to load players and decks to update stats.'
+    ];
+
+    if (report && report.restored.length > 0) {
+      parts.push(`Reverted ${report.restored.join(', ')}.`);
+    }
+
+    if (report && report.restoreFailed.length > 0) {
+      parts.push(`Could not revert ${report.restoreFailed.join(', ')}; use Reconcile to fix them.`);
+    }
+
+    parts.push(outcome);
+
+    return parts.join(' ');
+  }
+
   private applyResultToAll(result: ResultType): void {
     const updated: GameSlot[] = this.slots().map((slot) => ({ ...slot, result }));
     this.slots.set(updated);
   }
 
   private resetForm(): void {
-    this.slots.set(this.buildEmptySlots());
+    this.slots.set(this.buildEmptySlots(this.seatCount()));
   }
 
-  private buildEmptySlots(): GameSlot[] {
-    return [
-      { playerIndex: null, deckIndex: null, result: '' },
-      { playerIndex: null, deckIndex: null, result: '' },
-      { playerIndex: null, deckIndex: null, result: '' },
-      { playerIndex: null, deckIndex: null, result: '' }
-    ];
+  private buildEmptySlots(count: number): GameSlot[] {
+    return Array.from({ length: count }, () => ({ playerIndex: null, deckIndex: null, result: '' as ResultType }));
   }
 
   private applyWinLoss(winnerIndex: number): void {
@@ -214,20 +500,15 @@ export class CreateGameComponent implements OnInit {
       return;
     }
 
-    const player = this.players()[slot.playerIndex];
-    const playerId = this.getPlayerId(player);
-    const playerName = this.playerLabel(player, '');
-    const maps = this.favoriteDeckMaps();
-    const favoriteDeckName =
-      (playerId !== undefined ? maps.byId.get(playerId) : undefined) ??
-      (playerName ? maps.byName.get(playerName.toLowerCase()) : undefined);
+    const playerKey = getPlayerKey(this.players()[slot.playerIndex], this.players());
+    const favoriteDeckName = playerKey ? this.favoriteDeckByKey().get(playerKey) : undefined;
     if (!favoriteDeckName) {
       return;
     }
 
     const favoriteKey = this.normalizeDeckKey(favoriteDeckName);
     const deckIndex = this.decks().findIndex(
-      (deck) => this.normalizeDeckKey(this.deckLabel(deck, '')) === favoriteKey
+      (deck) => this.normalizeDeckKey(deck.deckName) === favoriteKey
     );
     if (deckIndex >= 0) {
       this.updateSlot(slotIndex, { deckIndex });
@@ -251,81 +532,66 @@ export class CreateGameComponent implements OnInit {
     });
   }
 
-  private buildFavoriteDeckMaps(matches: MatchRecord[]): FavoriteDeckMaps {
-    const countsByName = new Map<string, Map<string, number>>();
-    const countsById = new Map<number, Map<string, number>>();
-
-    const bumpName = (playerName: string | undefined, deckName: string | undefined) => {
-      if (!playerName || !deckName) {
-        return;
-      }
-      const nameKey = playerName.trim().toLowerCase();
-      const deckKey = this.normalizeDeckKey(deckName);
-      if (!nameKey || !deckKey) {
-        return;
-      }
-      const deckMap = countsByName.get(nameKey) ?? new Map<string, number>();
-      deckMap.set(deckKey, (deckMap.get(deckKey) ?? 0) + 1);
-      countsByName.set(nameKey, deckMap);
-    };
+  private applyPendingEdit(): void {
+    const editKey = this.pendingEditKey();
+    if (!editKey || this.players().length === 0 || this.decks().length === 0) {
+      return;
+    }
 
-    const bumpId = (playerId: number | undefined, deckName: string | undefined) => {
-      if (playerId === undefined || !deckName) {
-        return;
-      }
-      const deckKey = this.normalizeDeckKey(deckName);
-      if (!deckKey) {
-        return;
+    const match = this.matches().find((item) => String(item.matchId) === editKey);
+    if (!match) {
+      if (this.matches().length > 0) {
+        this.pendingEditKey.set(null);
+        this.submitErrorMessage.set(`Match ${editKey} was not found.`);
       }
-      const deckMap = countsById.get(playerId) ?? new Map<string, number>();
-      deckMap.set(deckKey, (deckMap.get(deckKey) ?? 0) + 1);
-      countsById.set(playerId, deckMap);
-    };
+      return;
+    }
 
-    matches.forEach((match) => {
-      const record = match as Record<string, unknown>;
+    this.pendingEditKey.set(null);
+    this.loadMatchIntoForm(match);
+  }
 
-      bumpId(match.playerID, match.deckName);
-      if (!match.playerID) {
-        bumpName(match.winnerName, match.deckName);
-      }
+  private loadMatchIntoForm(match: Match): void {
+    const slots: GameSlot[] = toMatchSeats(match)
+      .slice(0, MAX_SEATS)
+      .map((seat) => ({
+        playerIndex: this.findPlayerIndex(seat),
+        deckIndex: this.findDeckIndex(seat.deckName),
+        result: seat.result ?? ''
+      }));
 
-      bumpName(record['opponentOne'] as string | undefined, record['opponentOneDeck'] as string | undefined);
-      bumpName(record['opponentTwo'] as string | undefined, record['opponentTwoDeck'] as string | undefined);
-      bumpName(record['opponentThree'] as string | undefined, record['opponentThreeDeck'] as string | undefined);
-    });
+    this.pendingAutoDeckBySlot.set(new Map());
+    this.slots.set([...slots, ...this.buildEmptySlots(Math.max(0, MIN_SEATS - slots.length))]);
+    this.gameFormat.set(match.format?.toLowerCase().includes('casual') ? 'casual' : 'cedh');
+    const playedAt = match.playedAt ? new Date(match.playedAt) : null;
+    if (playedAt && !Number.isNaN(playedAt.getTime())) {
+      this.playedAtInput.set(this.toDateTimeInput(playedAt));
+    }
+    this.editingMatch.set(match);
+  }
 
-    const favoritesByName = new Map<string, string>();
-    countsByName.forEach((deckMap, playerKey) => {
-      let bestDeck = '';
-      let bestCount = -1;
-      deckMap.forEach((count, deckName) => {
-        if (count > bestCount) {
-          bestCount = count;
-          bestDeck = deckName;
-        }
-      });
-      if (bestDeck) {
-        favoritesByName.set(playerKey, bestDeck);
-      }
-    });
+  private findPlayerIndex(seat: MatchSeat): number | null {
+    const players = this.players();
+    const seatKey = createSeatPlayerResolver(players)(seat)?.key;
+    const index = seatKey
+      ? players.findIndex((player) => getPlayerKey(player, players) === seatKey)
+      : -1;
+    return index >= 0 ? index : null;
+  }
 
-    const favoritesById = new Map<number, string>();
-    countsById.forEach((deckMap, playerKey) => {
-      let bestDeck = '';
-      let bestCount = -1;
-      deckMap.forEach((count, deckName) => {
-        if (count > bestCount) {
-          bestCount = count;
-          bestDeck = deckName;
-        }
-      });
-      if (bestDeck) {
-        favoritesById.set(playerKey, bestDeck);
-      }
-    });
+  private findDeckIndex(deckName: string | undefined): number | null {
+    if (!deckName) {
+      return null;
+    }
+    const deckKey = this.normalizeDeckKey(deckName);
+    const index = this.decks().findIndex((deck) => this.normalizeDeckKey(deck.deckName) === deckKey);
+    return index >= 0 ? index : null;
+  }
 
-    return { byId: favoritesById, byName: favoritesByName };
+  private toDateTimeInput(value: Date): string {
+    const pad = (part: number) => String(part).padStart(2, '0');
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}` +
+      `T${pad(value.getHours())}:${pad(value.getMinutes())}`;
   }
 
   private normalizeDeckKey(value: string): string {
@@ -335,39 +601,7 @@ export class CreateGameComponent implements OnInit {
       .replace(/[^a-z0-9]+/g, '');
   }
 
-  playerLabel(player: Player, fallback: string): string {
-    const candidate =
-      (player as Record<string, unknown>)['name'] ??
-      (player as Record<string, unknown>)['playerName'] ??
-      (player as Record<string, unknown>)['username'] ??
-      (player as Record<string, unknown>)['id'] ??
-      fallback;
-    return String(candidate);
-  }
-
-  deckLabel(deck: Deck, fallback: string): string {
-    const candidate =
-      (deck as Record<string, unknown>)['name'] ??
-      (deck as Record<string, unknown>)['deckName'] ??
-      (deck as Record<string, unknown>)['title'] ??
-      (deck as Record<string, unknown>)['id'] ??
-      fallback;
-    return String(candidate);
-  }
-
-  createPayload(): unknown {
-    return {
-      format: this.gameFormat(),
-      seats: this.slots().map((slot, index) => ({
-        seat: index + 1,
-        player: slot.playerIndex !== null ? this.players()[slot.playerIndex] : null,
-        deck: slot.deckIndex !== null ? this.decks()[slot.deckIndex] : null,
-        result: slot.result
-      }))
-    };
-  }
-
-  private buildMatchPayload(): MatchRecord {
+  private buildMatchPayload(): Match {
     const slots = this.slots();
     const winnerIndex = slots.findIndex((slot) => slot.result === 'win');
     const tie = slots.every((slot) => slot.result === 'tie');
@@ -384,242 +618,45 @@ export class CreateGameComponent implements OnInit {
       .map((slot, index) => ({ slot, index }))
       .filter(({ index }) => index !== primaryIndex)
       .map(({ slot }) => ({
-        name: slot.playerIndex !== null
-          ? this.playerLabel(this.players()[slot.playerIndex], 'Unknown')
-          : 'Unknown',
-        deck: slot.deckIndex !== null
-          ? this.deckLabel(this.decks()[slot.deckIndex], 'Unknown')
-          : 'Unknown'
+        name: slot.playerIndex !== null ? this.players()[slot.playerIndex].playerName : 'Unknown',
+        deck: slot.deckIndex !== null ? this.decks()[slot.deckIndex].deckName : 'Unknown'
       }));
 
     return {
-      playerID: this.getPlayerId(primaryPlayer),
-      deckName: primaryDeck ? this.deckLabel(primaryDeck, 'Unknown') : 'Unknown',
+      playerId: primaryPlayer?.playerId,
+      deckName: primaryDeck ? primaryDeck.deckName : 'Unknown',
       winnerName: tie
         ? 'Tie'
         : primaryPlayer
-          ? this.playerLabel(primaryPlayer, 'Unknown')
+          ? primaryPlayer.playerName
           : 'Unknown',
       format: this.gameFormat() === 'cedh' ? 'CEDH' : 'CASUAL',
       playerWin: !tie && winnerIndex >= 0,
-      opponentOne: opponents[0]?.name ?? 'Unknown',
-      opponentOneDeck: opponents[0]?.deck ?? 'Unknown',
-      opponentTwo: opponents[1]?.name ?? 'Unknown',
-      opponentTwoDeck: opponents[1]?.deck ?? 'Unknown',
-      opponentThree: opponents[2]?.name ?? 'Unknown',
-      opponentThreeDeck: opponents[2]?.deck ?? 'Unknown',
+      opponentOne: opponents[0]?.name,
+      opponentOneDeck: opponents[0]?.deck,
+      opponentTwo: opponents[1]?.name,
+      opponentTwoDeck: opponents[1]?.deck,
+      opponentThree: opponents[2]?.name,
+      opponentThreeDeck: opponents[2]?.deck,
       result: tie ? 'TIE' : 'WIN',
-      playedAt: new Date().toISOString()
-    } as MatchRecord;
-  }
-
-  private getPlayerId(player: Player | null): number | undefined {
-    if (!player) {
-      return undefined;
-    }
-
-    const record = player as Record<string, unknown>;
-    const candidate = record['playerID'] ?? record['playerId'] ?? record['id'];
-    if (typeof candidate === 'number') {
-      return candidate;
-    }
-
-    if (typeof candidate === 'string' && candidate.trim() !== '' && !Number.isNaN(Number(candidate))) {
-      return Number(candidate);
-    }
-
-    return undefined;
-  }
-
-  private updateStatsForMatch(): Observable<unknown> {
-    const slots = this.slots();
-    const isCasual = this.gameFormat() === 'casual';
-
-    const playerDeltaMap = new Map<number, StatDelta>();
-    const deckDeltaMap = new Map<string, StatDelta>();
-
-    slots.forEach((slot) => {
-      const delta = this.buildDelta(slot.result, isCasual);
-      const deckDelta = this.buildLossDelta(slot.result, isCasual);
-
-      if (slot.playerIndex !== null) {
-        const player = this.players()[slot.playerIndex];
-        const playerId = this.getPlayerId(player);
-        if (playerId !== undefined) {
-          const existing = playerDeltaMap.get(playerId);
-          playerDeltaMap.set(playerId, existing ? this.mergeDelta(existing, delta) : { ...delta });
-        }
-      }
-
-      if (slot.deckIndex !== null) {
-        const deck = this.decks()[slot.deckIndex];
-        const deckName = this.getDeckNameForUpdate(deck);
-        if (deckName) {
-          const existing = deckDeltaMap.get(deckName);
-          deckDeltaMap.set(deckName, existing ? this.mergeDelta(existing, deckDelta) : { ...deckDelta });
-        }
-      }
-    });
-
-    if (playerDeltaMap.size === 0 && deckDeltaMap.size === 0) {
-      return of(null);
-    }
-
-    return forkJoin([
-      this.playerService.getAll(),
-      this.deckService.getAll()
-    ]).pipe(
-      switchMap(([players, decks]) => {
-        const playerRequests = Array.from(playerDeltaMap.entries()).map(([playerId, delta]) => {
-          const player = (players ?? []).find((item) => this.getPlayerId(item) === playerId);
-          if (!player) {
-            return of(null);
-          }
-          const payload = this.buildPlayerUpdatePayload(player, playerId, delta);
-          return this.playerService.update(playerId, payload);
-        });
-
-        const deckRequests = Array.from(deckDeltaMap.entries()).map(([deckName, delta]) => {
-          const deck = (decks ?? []).find((item) => {
-            const candidate = this.getDeckNameForUpdate(item);
-            return candidate ? candidate.toLowerCase() === deckName.toLowerCase() : false;
-          });
-          if (!deck) {
-            return of(null);
-          }
-          const payload = this.buildDeckUpdatePayload(deck, deckName, delta);
-          return this.deckService.update(deckName, payload);
-        });
-
-        if (playerRequests.length === 0 && deckRequests.length === 0) {
-          return of(null);
-        }
-
-        return forkJoin([...playerRequests, ...deckRequests]);
-      })
-    );
-  }
-
-  private buildDelta(result: ResultType, isCasual: boolean): StatDelta {
-    const delta: StatDelta = { wins: 0, losses: 0, ties: 0, casualWins: 0, casualLosses: 0 };
-    if (result === 'tie') {
-      delta.ties = 1;
-      return delta;
-    }
-
-    if (result === 'win') {
-      delta.wins = 1;
-      if (isCasual) {
-        delta.casualWins = 1;
-      }
-      return delta;
-    }
-
-    if (result === 'loss') {
-      delta.losses = 1;
-      if (isCasual) {
-        delta.casualLosses = 1;
-      }
-    }
-    return delta;
-  }
-
-  private buildLossDelta(result: ResultType, isCasual: boolean): StatDelta {
-    const delta: StatDelta = { wins: 0, losses: 0, ties: 0, casualWins: 0, casualLosses: 0 };
-    if (result === 'loss') {
-      delta.losses = 1;
-      if (isCasual) {
-        delta.casualLosses = 1;
-      }
-    }
-    return delta;
-  }
-
-  private mergeDelta(base: StatDelta, add: StatDelta): StatDelta {
-    return {
-      wins: base.wins + add.wins,
-      losses: base.losses + add.losses,
-      ties: base.ties + add.ties,
-      casualWins: base.casualWins + add.casualWins,
-      casualLosses: base.casualLosses + add.casualLosses
+      playedAt: new Date(this.playedAtInput()).toISOString(),
+      seats: this.buildSeats()
     };
   }
 
-  private buildPlayerUpdatePayload(player: Player, playerId: number, delta: StatDelta): Player {
-    const record = player as Record<string, unknown>;
-    const playerName =
-      record['playerName'] ?? record['PlayerName'] ?? record['name'] ?? record['username'] ?? 'Unknown';
-
-    const wins = this.coerceNumber(record, ['wins', 'Wins', 'winCount', 'totalWins', 'win_total']);
-    const losses = this.coerceNumber(record, ['losses', 'Losses', 'lossCount', 'totalLosses', 'loss_total']);
-    const ties = this.coerceNumber(record, ['ties', 'Ties', 'tieCount', 'totalTies']);
-    const casualWins = this.coerceNumber(record, ['casualWins', 'CasualWins']);
-    const casualLosses = this.coerceNumber(record, ['casualLosses', 'CasualLosses']);
-
-    return {
-      playerId,
-      playerName: String(playerName),
-      wins: wins + delta.wins,
-      losses: losses + delta.losses,
-      ties: ties + delta.ties,
-      casualWins: casualWins + delta.casualWins,
-      casualLosses: casualLosses + delta.casualLosses
-    } as Player;
-  }
-
-  private buildDeckUpdatePayload(deck: Deck, deckName: string, delta: StatDelta): Deck {
-    const record = deck as Record<string, unknown>;
-    const ownerId =
-      record['playerID'] ?? record['PlayerID'] ?? record['playerId'] ?? record['ownerId'] ?? 0;
-
-    const wins = this.coerceNumber(record, ['wins', 'Wins', 'winCount', 'totalWins', 'win_total']);
-    const losses = this.coerceNumber(record, ['losses', 'Losses', 'lossCount', 'totalLosses', 'loss_total']);
-    const ties = this.coerceNumber(record, ['ties', 'Ties', 'tieCount', 'totalTies']);
-    const casualWins = this.coerceNumber(record, ['casualWins', 'CasualWins']);
-    const casualLosses = this.coerceNumber(record, ['casualLosses', 'CasualLosses']);
-
-    return {
-      deckName,
-      playerID: typeof ownerId === 'number' ? ownerId : Number(ownerId) || 0,
-      wins: wins + delta.wins,
-      losses: losses + delta.losses,
-      ties: ties + delta.ties,
-      casualWins: casualWins + delta.casualWins,
-      casualLosses: casualLosses + delta.casualLosses
-    } as Deck;
-  }
-
-  private getDeckNameForUpdate(deck: Deck): string | null {
-    const record = deck as Record<string, unknown>;
-    const candidate =
-      record['DeckName'] ?? record['deckName'] ?? record['name'] ?? record['title'];
-    return candidate ? String(candidate) : null;
-  }
-
-  private coerceNumber(record: Record<string, unknown>, keys: string[]): number {
-    for (const key of keys) {
-      const value = record[key];
-      if (typeof value === 'number' && Number.isFinite(value)) {
-        return value;
-      }
-
-      if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
-        return Number(value);
-      }
-    }
-    return 0;
+  private buildSeats(): MatchSeat[] {
+    return this.slots().map((slot, index) => {
+      const player = slot.playerIndex !== null ? this.players()[slot.playerIndex] : null;
+      const deck = slot.deckIndex !== null ? this.decks()[slot.deckIndex] : null;
+      const result = slot.result || null;
+      return {
+        seat: index + 1,
+        playerId: player?.playerId,
+        playerName: player?.playerName,
+        deckName: deck?.deckName,
+        result,
+        placement: placementFor(result)
+      };
+    });
   }
 }
-
-interface StatDelta {
-  wins: number;
-  losses: number;
-  ties: number;
-  casualWins: number;
-  casualLosses: number;
-}
-
-interface FavoriteDeckMaps {
-  byId: Map<number, string>;
-  byName: Map<string, string>;
-}
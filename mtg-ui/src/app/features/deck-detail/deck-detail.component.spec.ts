@@ -0,0 +1,70 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { ActivatedRoute, convertToParamMap, provideRouter } from '@angular/router';
+import { of } from 'rxjs';
+import { DeckDetailComponent } from './deck-detail.component';
+import { DeckService } from '../../services/deck.service';
+import { CardService } from '../../services/card.service';
+import {
+  DecklistImportResult,
+  DecklistImportService
+} from '../../services/decklist-import.service';
+import { Deck } from '../../shared/models/deck.model';
+
+describe('DeckDetailComponent', () => {
+  const deck: Deck = {
+    deckName: 'Atraxa',
+    wins: 0,
+    losses: 0,
+    ties: 0,
+    casualWins: 0,
+    casualLosses: 0,
+    cards: [
+      { cardNumber: 472, setName: 'CMR', quantity: 1, commander: false },
+      { cardNumber: 190, setName: '2X2', quantity: 1, commander: true }
+    ]
+  };
+  const importResult: DecklistImportResult = {
+    entries: [{ cardNumber: 472, setName: 'CMR', quantity: 1, commander: false }],
+    cards: [],
+    unmatched: [{ lineNumber: 2, text: '1 Black Lotus', reason: 'No card named "Black Lotus".' }],
+    skipped: 0
+  };
+
+  let saveCards: jasmine.Spy;
+
+  beforeEach(async () => {
+    saveCards = jasmine.createSpy('updateCards').and.returnValue(of(deck));
+
+    await TestBed.configureTestingModule({
+      imports: [DeckDetailComponent],
+      providers: [
+        provideZonelessChangeDetection(),
+        provideRouter([]),
+        {
+          provide: ActivatedRoute,
+          useValue: {
+            snapshot: { paramMap: convertToParamMap({ deckKey: 'Atraxa' }), data: { editing: true } }
+          }
+        },
+        { provide: DeckService, useValue: { getById: () => of(deck), updateCards: saveCards } },
+        { provide: CardService, useValue: { getAll: () => of([]) } },
+        { provide: DecklistImportService, useValue: { import: () => of(importResult) } }
+      ]
+    }).compileComponents();
+  });
+
+  it('leaves a replace import with unmatched lines unsaved', () => {
+    const component = TestBed.createComponent(DeckDetailComponent).componentInstance;
+    component.ngOnInit();
+
+    component.importMode.set('replace');
+    component.importText.set('1 Sol Ring\n1 Black Lotus');
+    component.importDecklist();
+
+    expect(component.entries()).toEqual(importResult.entries);
+    expect(component.isDirty()).toBeTrue();
+    expect(component.importReport()?.unmatched.length).toBe(1);
+    expect(saveCards).not.toHaveBeenCalled();
+  });
+});
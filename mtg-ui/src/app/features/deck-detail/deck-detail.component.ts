@@ -0,0 +1,265 @@
+import { Component, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { forkJoin } from 'rxjs';
+import { DeckService } from '../../services/deck.service';
+import { CardService } from '../../services/card.service';
+import { NotificationService } from '../../services/notification.service';
+import {
+  DecklistImportResult,
+  DecklistImportService
+} from '../../services/decklist-import.service';
+import { Card } from '../../shared/models/card.model';
+import { Deck, DeckCard } from '../../shared/models/deck.model';
+import {
+  formatDecklistCsv,
+  formatDecklistJson,
+  formatDecklistText
+} from '../../services/decklist-format';
+import { validateCommanderDeck } from '../../services/commander-validator';
+import { CardSearchComponent } from '../../shared/components/card-search/card-search.component';
+import { IfRoleDirective } from '../../shared/directives/if-role.directive';
+
+type ImportMode = 'replace' | 'merge';
+type ExportFormat = 'arena' | 'mtgo' | 'csv' | 'json';
+
+interface DecklistRow {
+  entry: DeckCard;
+  key: string;
+  card?: Card;
+}
+
+@Component({
+  selector: 'app-deck-detail',
+  standalone: true,
+  imports: [CommonModule, RouterLink, CardSearchComponent, IfRoleDirective],
+  templateUrl: './deck-detail.component.html',
+  styleUrls: ['./deck-detail.component.scss']
+})
+export class DeckDetailComponent implements OnInit {
+  title = 'Deck';
+
+  private deckService = inject(DeckService);
+  private cardService = inject(CardService);
+  private notifications = inject(NotificationService);
+  private decklistImport = inject(DecklistImportService);
+  private route = inject(ActivatedRoute);
+
+  deck = signal<Deck | null>(null);
+  entries = signal<DeckCard[]>([]);
+  collection = signal<Card[]>([]);
+  isLoading = signal(false);
+  isSaving = signal(false);
+  isDirty = signal(false);
+  showImport = signal(false);
+  importText = signal('');
+  importMode = signal<ImportMode>('replace');
+  isImporting = signal(false);
+  importReport = signal<DecklistImportResult | null>(null);
+  exportFormat = signal<ExportFormat>('arena');
+  readonly deckKey = this.route.snapshot.paramMap.get('deckKey') ?? '';
+  /** Set on the admin-only `/decks/:deckKey/edit` route; the plain route is read-only. */
+  readonly editing = this.route.snapshot.data['editing'] === true;
+
+  rows = computed<DecklistRow[]>(() => {
+    const cardsByKey = new Map(this.collection().map((card) => [this.getCardKey(card), card]));
+    return this.entries()
+      .map((entry) => {
+        const key = this.getCardKey(entry);
+        return { entry, key, card: cardsByKey.get(key) };
+      })
+      .sort(
+        (a, b) =>
+          Number(b.entry.commander) - Number(a.entry.commander) ||
+          (a.card?.cardName ?? a.key).localeCompare(b.card?.cardName ?? b.key)
+      );
+  });
+  cardCount = computed(() => this.entries().reduce((total, entry) => total + entry.quantity, 0));
+  commanders = computed(() => this.rows().filter((row) => row.entry.commander));
+  validation = computed(() => validateCommanderDeck(this.rows()));
+
+  ngOnInit(): void {
+    if (this.deckKey) {
+      this.loadDeck(this.deckKey);
+    }
+  }
+
+  loadDeck(deckKey: string): void {
+    this.isLoading.set(true);
+
+    forkJoin([this.deckService.getById(deckKey), this.cardService.getAll()]).subscribe({
+      next: ([deck, cards]) => {
+        this.deck.set(deck);
+        this.entries.set(deck.cards ?? []);
+        this.collection.set(cards ?? []);
+        this.isDirty.set(false);
+        this.isLoading.set(false);
+      },
+      error: (error) => {
+        this.isLoading.set(false);
+        this.notifications.error('Failed to load deck', error);
+      }
+    });
+  }
+
+  addCard(card: Card): void {
+    const key = this.getCardKey(card);
+    const existing = this.entries().find((entry) => this.getCardKey(entry) === key);
+    if (existing) {
+      this.setQuantity(existing, existing.quantity + 1);
+      return;
+    }
+
+    if (!this.collection().some((item) => this.getCardKey(item) === key)) {
+      this.collection.set([...this.collection(), card]);
+    }
+    const entry: DeckCard = {
+      cardNumber: card.cardNumber,
+      setName: card.setName,
+      quantity: 1,
+      commander: false
+    };
+    this.updateEntries([...this.entries(), entry]);
+  }
+
+  setQuantity(entry: DeckCard, value: number | string): void {
+    const quantity = Math.floor(Number(value));
+    if (!Number.isFinite(quantity) || quantity < 1) {
+      this.removeEntry(entry);
+      return;
+    }
+    this.updateEntries(
+      this.entries().map((item) => (item === entry ? { ...item, quantity } : item))
+    );
+  }
+
+  toggleCommander(entry: DeckCard): void {
+    this.updateEntries(
+      this.entries().map((item) =>
+        item === entry ? { ...item, commander: !item.commander } : item
+      )
+    );
+  }
+
+  removeEntry(entry: DeckCard): void {
+    this.updateEntries(this.entries().filter((item) => item !== entry));
+  }
+
+  toggleImport(): void {
+    this.showImport.set(!this.showImport());
+    this.importReport.set(null);
+  }
+
+  importDecklist(): void {
+    const text = this.importText().trim();
+    if (!text) {
+      return;
+    }
+
+    this.isImporting.set(true);
+    this.importReport.set(null);
+
+    this.decklistImport.import(text).subscribe({
+      next: (result) => {
+        this.isImporting.set(false);
+        this.importReport.set(result);
+        if (result.entries.length === 0) {
+          return;
+        }
+
+        const known = new Set(this.collection().map((card) => this.getCardKey(card)));
+        this.collection.set([
+          ...this.collection(),
+          ...result.cards.filter((card) => !known.has(this.getCardKey(card)))
+        ]);
+        this.updateEntries(
+          this.importMode() === 'replace'
+            ? result.entries
+            : this.mergeEntries(this.entries(), result.entries)
+        );
+        this.importText.set('');
+      },
+      error: (error) => {
+        this.isImporting.set(false);
+        this.notifications.error('Failed to import decklist', error);
+      }
+    });
+  }
+
+  exportDecklist(): void {
+    const deckName = this.deck()?.deckName ?? this.title;
+    const format = this.exportFormat();
+    const rows = this.rows();
+    const fileName = deckName.trim().replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '') || 'deck';
+
+    const file =
+      format === 'csv'
+        ? { content: formatDecklistCsv(rows), type: 'text/csv', extension: 'csv' }
+        : format === 'json'
+          ? {
+              content: formatDecklistJson(deckName, rows),
+              type: 'application/json',
+              extension: 'json'
+            }
+          : { content: formatDecklistText(rows, format), type: 'text/plain', extension: 'txt' };
+
+    const url = URL.createObjectURL(new Blob([file.content], { type: file.type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName}${format === 'mtgo' ? '-mtgo' : ''}.${file.extension}`;
+    link.click();
+    // Revoking in the same tick can cancel the download in some browsers.
+    setTimeout(() => URL.revokeObjectURL(url));
+  }
+
+  saveDecklist(): void {
+    const deck = this.deck();
+    if (!deck) {
+      return;
+    }
+
+    this.isSaving.set(true);
+
+    this.deckService.updateCards(deck.deckName, this.entries()).subscribe({
+      next: (saved) => {
+        this.deck.set(saved);
+        this.entries.set(saved.cards ?? this.entries());
+        this.isDirty.set(false);
+        this.isSaving.set(false);
+        this.notifications.success(`Saved the decklist for ${saved.deckName}.`);
+      },
+      error: (error) => {
+        this.isSaving.set(false);
+        this.notifications.error('Failed to save decklist', error);
+      }
+    });
+  }
+
+  getCardKey(card: Pick<Card, 'cardNumber' | 'setName'>): string {
+    return `${card.cardNumber}/${card.setName.toLowerCase()}`;
+  }
+
+  private mergeEntries(current: DeckCard[], imported: DeckCard[]): DeckCard[] {
+    const merged = new Map(current.map((entry) => [this.getCardKey(entry), entry]));
+    imported.forEach((entry) => {
+      const key = this.getCardKey(entry);
+      const existing = merged.get(key);
+      merged.set(
+        key,
+        existing
+          ? {
+              ...existing,
+              quantity: existing.quantity + entry.quantity,
+              commander: existing.commander || entry.commander
+            }
+          : entry
+      );
+    });
+    return [...merged.values()];
+  }
+
+  private updateEntries(entries: DeckCard[]): void {
+    this.entries.set(entries);
+    this.isDirty.set(true);
+  }
+}
@@ -0,0 +1,78 @@
+import { Component, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatchService } from '../../services/match.service';
+import { NotificationService } from '../../services/notification.service';
+import { filterMatchesByFormat } from '../../services/api.adapter';
+import { MatchupPair, buildDeckMatchups, listMatchupPairs } from '../../services/head-to-head';
+import { Match } from '../../shared/models/match.model';
+import { FormatFilter } from '../../shared/models/stats.model';
+
+@Component({
+  selector: 'app-deck-matchups',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './deck-matchups.component.html',
+  styleUrls: ['./deck-matchups.component.scss']
+})
+export class DeckMatchupsComponent implements OnInit {
+  title = 'Deck Matchups';
+
+  private matchService = inject(MatchService);
+  private notifications = inject(NotificationService);
+
+  matches = signal<Match[]>([]);
+  readonly formatOptions: FormatFilter[] = ['all', 'casual', 'cedh'];
+  formatFilter = signal<FormatFilter>('all');
+  focusDeckKey = signal('');
+  isLoading = signal(false);
+
+  table = computed(() =>
+    buildDeckMatchups(filterMatchesByFormat(this.matches(), this.formatFilter()))
+  );
+
+  /** With a deck in focus, only its pairings are shown and it is always listed first. */
+  pairs = computed(() => {
+    const focus = this.focusDeckKey();
+    const pairs = listMatchupPairs(this.table());
+    if (!focus) {
+      return pairs;
+    }
+
+    return pairs
+      .filter((pair) => pair.first.key === focus || pair.second.key === focus)
+      .map((pair) => (pair.first.key === focus ? pair : this.swap(pair)));
+  });
+
+  ngOnInit(): void {
+    this.isLoading.set(true);
+
+    this.matchService.getAll().subscribe({
+      next: (data) => {
+        this.matches.set(data ?? []);
+        this.isLoading.set(false);
+      },
+      error: (error) => {
+        this.isLoading.set(false);
+        this.notifications.error('Failed to load match history', error);
+      }
+    });
+  }
+
+  getWinRate(wins: number, games: number): string {
+    return games ? `${((wins / games) * 100).toFixed(1)}%` : '—';
+  }
+
+  getFormatLabel(format: FormatFilter): string {
+    return format === 'cedh' ? 'cEDH' : format.charAt(0).toUpperCase() + format.slice(1);
+  }
+
+  private swap(pair: MatchupPair): MatchupPair {
+    return {
+      first: pair.second,
+      second: pair.first,
+      games: pair.games,
+      firstWins: pair.secondWins,
+      secondWins: pair.firstWins
+    };
+  }
+}
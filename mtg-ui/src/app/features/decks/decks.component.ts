@@ -1,13 +1,19 @@
 import { Component, OnInit, computed, signal, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { Deck, DeckService } from '../../services/deck.service';
-
-type FormatFilter = 'all' | 'casual' | 'cedh';
+import { RouterLink } from '@angular/router';
+import { DeckService } from '../../services/deck.service';
+import { MatchService } from '../../services/match.service';
+import { NotificationService } from '../../services/notification.service';
+import { StatsLedgerService } from '../../services/stats-ledger.service';
+import { Deck } from '../../shared/models/deck.model';
+import { Match } from '../../shared/models/match.model';
+import { FormatFilter } from '../../shared/models/stats.model';
+import { IfRoleDirective } from '../../shared/directives/if-role.directive';
 
 @Component({
   selector: 'app-decks',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, RouterLink, IfRoleDirective],
   templateUrl: './decks.component.html',
   styleUrls: ['./decks.component.scss']
 })
@@ -15,8 +21,13 @@ export class DecksComponent implements OnInit {
   title = 'Decks';
 
   private deckService = inject(DeckService);
+  private matchService = inject(MatchService);
+  private notifications = inject(NotificationService);
+  private statsLedger = inject(StatsLedgerService);
 
   decks = signal<Deck[]>([]);
+  matches = signal<Match[]>([]);
+  hasMatchHistory = signal(false);
   readonly formatOptions: FormatFilter[] = ['all', 'casual', 'cedh'];
   formatFilter = signal<FormatFilter>('all');
   isLoadingDecks = signal(false);
@@ -30,14 +41,16 @@ export class DecksComponent implements OnInit {
   createDeckErrorMessage = signal<string | null>(null);
   createDeckSuccessMessage = signal<string | null>(null);
 
-  filteredDecks = computed(() =>
-    [...this.decks()].sort(
-      (a, b) => this.getWinPercentageValue(b) - this.getWinPercentageValue(a)
-    )
-  );
+  filteredDecks = computed(() => {
+    const format = this.formatFilter();
+    const matches = this.hasMatchHistory() ? this.matches() : null;
+    const { decks } = this.statsLedger.standingsForFormat(matches, [], this.decks(), format);
+    return [...decks].sort((a, b) => this.getWinPercentageValue(b) - this.getWinPercentageValue(a));
+  });
 
   ngOnInit(): void {
     this.loadDecks();
+    this.loadMatches();
   }
 
   loadDecks(): void {
@@ -49,9 +62,23 @@ export class DecksComponent implements OnInit {
         this.decks.set(data ?? []);
         this.isLoadingDecks.set(false);
       },
-      error: () => {
+      error: (error) => {
         this.isLoadingDecks.set(false);
-        this.deckErrorMessage.set('Failed to load decks. Check the API.');
+        this.notifications.error('Failed to load decks', error);
+      }
+    });
+  }
+
+  loadMatches(): void {
+    this.matchService.getAll().subscribe({
+      next: (data) => {
+        this.matches.set(data ?? []);
+        this.hasMatchHistory.set(true);
+      },
+      error: () => {
+        this.matches.set([]);
+        this.hasMatchHistory.set(false);
+        this.formatFilter.set('all');
       }
     });
   }
@@ -105,9 +132,9 @@ export class DecksComponent implements OnInit {
         this.selectedDeleteKey.set('');
         this.showDeleteSelect.set(false);
       },
-      error: () => {
+      error: (error) => {
         this.deletingDeckId.set(null);
-        this.deckErrorMessage.set('Failed to delete deck. Check the API.');
+        this.notifications.error('Failed to delete deck', error);
       }
     });
   }
@@ -123,7 +150,7 @@ export class DecksComponent implements OnInit {
     this.createDeckSuccessMessage.set(null);
     this.isCreatingDeck.set(true);
 
-    const payload: Deck = {
+    const deck: Deck = {
       deckName: name,
       wins: 0,
       losses: 0,
@@ -132,7 +159,7 @@ export class DecksComponent implements OnInit {
       casualLosses: 0
     };
 
-    this.deckService.create(payload).subscribe({
+    this.deckService.create(deck).subscribe({
       next: (created) => {
         this.decks.set([created, ...this.decks()]);
         this.isCreatingDeck.set(false);
@@ -140,31 +167,24 @@ export class DecksComponent implements OnInit {
         this.resetDeckForm();
         this.showAddForm.set(false);
       },
-      error: () => {
+      error: (error) => {
         this.isCreatingDeck.set(false);
-        this.createDeckErrorMessage.set('Failed to create deck. Check the API.');
+        this.notifications.error('Failed to create deck', error);
       }
     });
   }
 
 
   getDeckName(deck: Deck): string {
-    const record = deck as Record<string, unknown>;
-    const candidate =
-      record['name'] ??
-      record['deckName'] ??
-      record['title'] ??
-      record['displayName'] ??
-      record['id'];
-    return candidate ? String(candidate) : 'Unknown Deck';
+    return deck.deckName;
   }
 
   getWins(deck: Deck): number {
-    return this.coerceNumber(deck, ['wins', 'winCount', 'totalWins', 'win_total']);
+    return deck.wins;
   }
 
   getLosses(deck: Deck): number {
-    return this.coerceNumber(deck, ['losses', 'lossCount', 'totalLosses', 'loss_total']);
+    return deck.losses;
   }
 
   getWinPercentage(deck: Deck): string {
@@ -175,47 +195,16 @@ export class DecksComponent implements OnInit {
     return format === 'cedh' ? 'cEDH' : format.charAt(0).toUpperCase() + format.slice(1);
   }
 
-  getDeckId(deck: Deck): number | undefined {
-    const record = deck as Record<string, unknown>;
-    const candidate =
-      record['deckID'] ??
-      record['deckId'] ??
-      record['deck_id'] ??
-      record['id'];
-
-    if (typeof candidate === 'number' && Number.isFinite(candidate)) {
-      return candidate;
-    }
-
-    if (typeof candidate === 'string' && candidate.trim() !== '' && !Number.isNaN(Number(candidate))) {
-      return Number(candidate);
-    }
-
-    return undefined;
-  }
-
   private resetDeckForm(): void {
     this.newDeckName.set('');
   }
 
   getDeckDeleteKey(deck: Deck): number | string | undefined {
-    const deckId = this.getDeckId(deck);
-    if (deckId !== undefined) {
-      return deckId;
+    if (deck.deckId !== undefined) {
+      return deck.deckId;
     }
 
-    const record = deck as Record<string, unknown>;
-    const nameCandidate =
-      record['deckName'] ??
-      record['DeckName'] ??
-      record['name'] ??
-      record['title'];
-
-    if (typeof nameCandidate === 'string' && nameCandidate.trim() !== '') {
-      return nameCandidate.trim();
-    }
-
-    return undefined;
+    return deck.deckName.trim() || undefined;
   }
 
   getDeckDeleteKeyString(deck: Deck): string {
@@ -223,61 +212,13 @@ export class DecksComponent implements OnInit {
     return key === undefined ? '' : String(key);
   }
 
-  private getFormat(deck: Deck): 'casual' | 'cedh' | 'unknown' {
-    const record = deck as Record<string, unknown>;
-    const candidate =
-      record['format'] ??
-      record['gameType'] ??
-      record['mode'] ??
-      record['type'] ??
-      record['playStyle'];
-
-    if (typeof candidate !== 'string') {
-      return 'unknown';
-    }
-
-    const normalized = candidate.toLowerCase();
-    if (normalized.includes('cedh')) {
-      return 'cedh';
-    }
-
-    if (normalized.includes('casual')) {
-      return 'casual';
-    }
-
-    return 'unknown';
-  }
-
-  private coerceNumber(deck: Deck, keys: string[]): number {
-    const record = deck as Record<string, unknown>;
-    for (const key of keys) {
-      const value = record[key];
-      if (typeof value === 'number' && Number.isFinite(value)) {
-        return value;
-      }
-
-      if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
-        return Number(value);
-      }
-    }
-    return 0;
-  }
-
   private getWinPercentageValue(deck: Deck): number {
-    const record = deck as Record<string, unknown>;
-    const direct = record['winPercentage'] ?? record['winPct'] ?? record['win_percent'];
-    if (typeof direct === 'number' && Number.isFinite(direct)) {
-      return direct;
-    }
-
-    const wins = this.getWins(deck);
-    const losses = this.getLosses(deck);
-    const total = wins + losses;
+    const total = deck.wins + deck.losses;
     if (!total) {
       return 0;
     }
 
-    return (wins / total) * 100;
+    return (deck.wins / total) * 100;
   }
 
 }
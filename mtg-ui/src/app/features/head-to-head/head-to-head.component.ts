@@ -0,0 +1,61 @@
+import { Component, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { forkJoin } from 'rxjs';
+import { MatchService } from '../../services/match.service';
+import { PlayerService } from '../../services/player.service';
+import { NotificationService } from '../../services/notification.service';
+import { HeadToHeadCell, buildHeadToHead, getHeadToHeadCell } from '../../services/head-to-head';
+import { SeatPlayer } from '../../services/api.adapter';
+import { Match } from '../../shared/models/match.model';
+import { Player } from '../../shared/models/player.model';
+
+@Component({
+  selector: 'app-head-to-head',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  templateUrl: './head-to-head.component.html',
+  styleUrls: ['./head-to-head.component.scss']
+})
+export class HeadToHeadComponent implements OnInit {
+  title = 'Head to Head';
+
+  private matchService = inject(MatchService);
+  private playerService = inject(PlayerService);
+  private notifications = inject(NotificationService);
+
+  matches = signal<Match[]>([]);
+  players = signal<Player[]>([]);
+  isLoading = signal(false);
+
+  table = computed(() => buildHeadToHead(this.matches(), this.players()));
+  gridColumns = computed(() => `minmax(120px, 1.5fr) repeat(${this.table().players.length}, 90px)`);
+
+  ngOnInit(): void {
+    this.isLoading.set(true);
+
+    forkJoin([this.matchService.getAll(), this.playerService.getAll()]).subscribe({
+      next: ([matches, players]) => {
+        this.matches.set(matches ?? []);
+        this.players.set(players ?? []);
+        this.isLoading.set(false);
+      },
+      error: (error) => {
+        this.isLoading.set(false);
+        this.notifications.error('Failed to load match history', error);
+      }
+    });
+  }
+
+  getCell(row: SeatPlayer, column: SeatPlayer): HeadToHeadCell {
+    return getHeadToHeadCell(this.table(), row.key, column.key);
+  }
+
+  getWinRate(cell: HeadToHeadCell): string {
+    return cell.games ? `${Math.round((cell.wins / cell.games) * 100)}%` : '—';
+  }
+
+  getCellTitle(row: SeatPlayer, column: SeatPlayer, cell: HeadToHeadCell): string {
+    return `${row.label} won ${cell.wins} of ${cell.games} games with ${column.label} at the table`;
+  }
+}
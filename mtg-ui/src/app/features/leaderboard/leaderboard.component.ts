@@ -0,0 +1,92 @@
+import { Component, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { forkJoin } from 'rxjs';
+import { MatchService } from '../../services/match.service';
+import { PlayerService } from '../../services/player.service';
+import { NotificationService } from '../../services/notification.service';
+import {
+  RatedGame,
+  RatedSeat,
+  Rating,
+  computeRatings,
+  conservativeRating
+} from '../../services/rating-engine';
+import { Match } from '../../shared/models/match.model';
+import { Player } from '../../shared/models/player.model';
+
+type LeaderboardView = 'players' | 'decks';
+
+const RECENT_GAME_COUNT = 10;
+
+@Component({
+  selector: 'app-leaderboard',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './leaderboard.component.html',
+  styleUrls: ['./leaderboard.component.scss']
+})
+export class LeaderboardComponent implements OnInit {
+  title = 'Leaderboard';
+
+  private matchService = inject(MatchService);
+  private playerService = inject(PlayerService);
+  private notifications = inject(NotificationService);
+
+  matches = signal<Match[]>([]);
+  players = signal<Player[]>([]);
+  view = signal<LeaderboardView>('players');
+  isLoading = signal(false);
+
+  results = computed(() => computeRatings(this.matches(), this.players()));
+  ratings = computed(() =>
+    this.view() === 'players' ? this.results().players : this.results().decks
+  );
+  recentGames = computed(() => this.results().games.slice(-RECENT_GAME_COUNT).reverse());
+
+  ngOnInit(): void {
+    this.recalculate();
+  }
+
+  /** Reloads match history and rates every game again from default ratings. */
+  recalculate(): void {
+    this.isLoading.set(true);
+
+    forkJoin([this.matchService.getAll(), this.playerService.getAll()]).subscribe({
+      next: ([matches, players]) => {
+        this.matches.set(matches ?? []);
+        this.players.set(players ?? []);
+        this.isLoading.set(false);
+      },
+      error: (error) => {
+        this.isLoading.set(false);
+        this.notifications.error('Failed to load match history', error);
+      }
+    });
+  }
+
+  getConservativeRating(rating: Rating): string {
+    return Math.round(conservativeRating(rating)).toString();
+  }
+
+  getSeats(game: RatedGame): RatedSeat[] {
+    return this.view() === 'players' ? game.players : game.decks;
+  }
+
+  formatChange(change: number): string {
+    const rounded = Math.round(change);
+    return rounded > 0 ? `+${rounded}` : String(rounded);
+  }
+
+  formatDate(value?: string): string {
+    if (!value) {
+      return '—';
+    }
+
+    const parsed = new Date(value);
+    if (Number.isNaN(parsed.getTime())) {
+      return value;
+    }
+
+    return parsed.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+  }
+}
@@ -0,0 +1,56 @@
+import { Component, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { HttpErrorResponse } from '@angular/common/http';
+import { ActivatedRoute, Router } from '@angular/router';
+import { AuthService } from '../../services/auth.service';
+
+@Component({
+  selector: 'app-login',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './login.component.html',
+  styleUrls: ['./login.component.scss']
+})
+export class LoginComponent {
+  title = 'Log In';
+
+  private auth = inject(AuthService);
+  private router = inject(Router);
+  private route = inject(ActivatedRoute);
+
+  username = signal('');
+  password = signal('');
+  isSubmitting = signal(false);
+  errorMessage = signal<string | null>(null);
+
+  login(event: Event): void {
+    event.preventDefault();
+    if (this.isSubmitting() || !this.username().trim() || !this.password()) {
+      return;
+    }
+
+    this.isSubmitting.set(true);
+    this.errorMessage.set(null);
+
+    this.auth.login(this.username().trim(), this.password()).subscribe({
+      next: () => {
+        this.isSubmitting.set(false);
+        this.router.navigateByUrl(this.getReturnUrl());
+      },
+      error: (error) => {
+        this.isSubmitting.set(false);
+        this.password.set('');
+        this.errorMessage.set(
+          error instanceof HttpErrorResponse && error.status === 401
+            ? 'Wrong username or password.'
+            : 'Failed to log in. Check the API.'
+        );
+      }
+    });
+  }
+
+  private getReturnUrl(): string {
+    const returnUrl = this.route.snapshot.queryParamMap.get('returnUrl');
+    return returnUrl && returnUrl.startsWith('/') && !returnUrl.startsWith('/login') ? returnUrl : '/';
+  }
+}
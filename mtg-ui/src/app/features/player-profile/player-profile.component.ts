@@ -0,0 +1,129 @@
+import { Component, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { forkJoin } from 'rxjs';
+import { PlayerService } from '../../services/player.service';
+import { MatchService } from '../../services/match.service';
+import { NotificationService } from '../../services/notification.service';
+import {
+  PlayerRecord,
+  PlayerStreak,
+  buildPlayerProfile,
+  getWinRate
+} from '../../services/player-profile';
+import { Match } from '../../shared/models/match.model';
+import { Player } from '../../shared/models/player.model';
+
+const TREND_WIDTH = 300;
+const TREND_HEIGHT = 100;
+
+const STREAK_LABELS: Record<PlayerStreak['result'], [string, string]> = {
+  win: ['win', 'wins'],
+  loss: ['loss', 'losses'],
+  tie: ['tie', 'ties']
+};
+
+@Component({
+  selector: 'app-player-profile',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  templateUrl: './player-profile.component.html',
+  styleUrls: ['./player-profile.component.scss']
+})
+export class PlayerProfileComponent implements OnInit {
+  title = 'Player';
+
+  private playerService = inject(PlayerService);
+  private matchService = inject(MatchService);
+  private notifications = inject(NotificationService);
+  private route = inject(ActivatedRoute);
+
+  readonly trendWidth = TREND_WIDTH;
+  readonly trendHeight = TREND_HEIGHT;
+
+  playerKey = signal('');
+  players = signal<Player[]>([]);
+  matches = signal<Match[]>([]);
+  isLoading = signal(false);
+
+  /** The route key is a player id, or the name for players saved without one. */
+  player = computed(() => {
+    const key = this.playerKey();
+    return (
+      this.players().find(
+        (player) =>
+          (player.playerId !== undefined && String(player.playerId) === key) ||
+          player.playerName.trim() === key
+      ) ?? null
+    );
+  });
+  profile = computed(() => {
+    const player = this.player();
+    return player ? buildPlayerProfile(this.matches(), player, this.players()) : null;
+  });
+  trendPoints = computed(() => {
+    const trend = this.profile()?.trend ?? [];
+    const step = trend.length > 1 ? TREND_WIDTH / (trend.length - 1) : 0;
+    return trend
+      .map((point, index) => {
+        const x = trend.length > 1 ? index * step : TREND_WIDTH / 2;
+        const y = TREND_HEIGHT - (point.winRate / 100) * TREND_HEIGHT;
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(' ');
+  });
+
+  ngOnInit(): void {
+    const playerKey = this.route.snapshot.paramMap.get('playerKey');
+    if (playerKey) {
+      this.playerKey.set(playerKey);
+      this.loadProfile();
+    }
+  }
+
+  loadProfile(): void {
+    this.isLoading.set(true);
+
+    forkJoin([this.playerService.getAll(), this.matchService.getAll()]).subscribe({
+      next: ([players, matches]) => {
+        this.players.set(players ?? []);
+        this.matches.set(matches ?? []);
+        this.isLoading.set(false);
+      },
+      error: (error) => {
+        this.isLoading.set(false);
+        this.notifications.error('Failed to load player profile', error);
+      }
+    });
+  }
+
+  getRecord(record: PlayerRecord): string {
+    return `${record.wins}–${record.losses}–${record.ties}`;
+  }
+
+  getWinPercentage(record: PlayerRecord): string {
+    return record.games ? `${getWinRate(record).toFixed(1)}%` : '—';
+  }
+
+  getStreakLabel(streak: PlayerStreak | null): string {
+    if (!streak) {
+      return '—';
+    }
+
+    const [one, many] = STREAK_LABELS[streak.result];
+    return `${streak.length} ${streak.length === 1 ? one : many} in a row`;
+  }
+
+  formatDate(value?: string): string {
+    if (!value) {
+      return '—';
+    }
+
+    const parsed = new Date(value);
+    if (Number.isNaN(parsed.getTime())) {
+      return value;
+    }
+
+    return parsed.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+  }
+}
@@ -1,14 +1,20 @@
 import { Component, OnInit, computed, signal, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { Player, PlayerService } from '../../services/player.service';
-import { MatchRecord, MatchService } from '../../services/match.service';
-
-type FormatFilter = 'all' | 'casual' | 'cedh';
+import { RouterLink } from '@angular/router';
+import { PlayerService } from '../../services/player.service';
+import { MatchService } from '../../services/match.service';
+import { NotificationService } from '../../services/notification.service';
+import { StatsLedgerService } from '../../services/stats-ledger.service';
+import { buildFavoriteDeckMap, getPlayerKey } from '../../services/player-profile';
+import { Player } from '../../shared/models/player.model';
+import { Match } from '../../shared/models/match.model';
+import { FormatFilter } from '../../shared/models/stats.model';
+import { IfRoleDirective } from '../../shared/directives/if-role.directive';
 
 @Component({
   selector: 'app-players',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, RouterLink, IfRoleDirective],
   templateUrl: './players.component.html',
   styleUrls: ['./players.component.scss']
 })
@@ -17,9 +23,12 @@ export class PlayersComponent implements OnInit {
 
   private playerService = inject(PlayerService);
   private matchService = inject(MatchService);
+  private notifications = inject(NotificationService);
+  private statsLedger = inject(StatsLedgerService);
 
   players = signal<Player[]>([]);
-  matches = signal<MatchRecord[]>([]);
+  matches = signal<Match[]>([]);
+  hasMatchHistory = signal(false);
   readonly formatOptions: FormatFilter[] = ['all', 'casual', 'cedh'];
   formatFilter = signal<FormatFilter>('all');
   isLoadingPlayers = signal(false);
@@ -33,13 +42,16 @@ export class PlayersComponent implements OnInit {
   selectedDeleteKey = signal('');
   deletingPlayerId = signal<number | null>(null);
 
-  filteredPlayers = computed(() =>
-    [...this.players()].sort(
+  filteredPlayers = computed(() => {
+    const format = this.formatFilter();
+    const matches = this.hasMatchHistory() ? this.matches() : null;
+    const { players } = this.statsLedger.standingsForFormat(matches, this.players(), [], format);
+    return [...players].sort(
       (a, b) => this.getWinPercentageValue(b) - this.getWinPercentageValue(a)
-    )
-  );
+    );
+  });
 
-  favoriteDeckByKey = computed(() => this.buildFavoriteDeckMap(this.matches()));
+  favoriteDeckByKey = computed(() => buildFavoriteDeckMap(this.matches(), this.players()));
 
   ngOnInit(): void {
     this.loadPlayers();
@@ -55,9 +67,9 @@ export class PlayersComponent implements OnInit {
         this.players.set(data ?? []);
         this.isLoadingPlayers.set(false);
       },
-      error: () => {
+      error: (error) => {
         this.isLoadingPlayers.set(false);
-        this.playerErrorMessage.set('Failed to load players. Check the API.');
+        this.notifications.error('Failed to load players', error);
       }
     });
   }
@@ -66,9 +78,12 @@ export class PlayersComponent implements OnInit {
     this.matchService.getAll().subscribe({
       next: (data) => {
         this.matches.set(data ?? []);
+        this.hasMatchHistory.set(true);
       },
       error: () => {
         this.matches.set([]);
+        this.hasMatchHistory.set(false);
+        this.formatFilter.set('all');
       }
     });
   }
@@ -90,7 +105,7 @@ export class PlayersComponent implements OnInit {
     this.createPlayerSuccessMessage.set(null);
     this.isCreatingPlayer.set(true);
 
-    const payload: Player = {
+    const player: Player = {
       playerName: name,
       wins: 0,
       losses: 0,
@@ -99,7 +114,7 @@ export class PlayersComponent implements OnInit {
       casualLosses: 0
     };
 
-    this.playerService.create(payload).subscribe({
+    this.playerService.create(player).subscribe({
       next: (created) => {
         this.players.set([created, ...this.players()]);
         this.isCreatingPlayer.set(false);
@@ -107,9 +122,9 @@ export class PlayersComponent implements OnInit {
         this.resetPlayerForm();
         this.showAddForm.set(false);
       },
-      error: () => {
+      error: (error) => {
         this.isCreatingPlayer.set(false);
-        this.createPlayerErrorMessage.set('Failed to create player. Check the API.');
+        this.notifications.error('Failed to create player', error);
       }
     });
   }
@@ -157,30 +172,23 @@ export class PlayersComponent implements OnInit {
         this.selectedDeleteKey.set('');
         this.showDeleteSelect.set(false);
       },
-      error: () => {
+      error: (error) => {
         this.deletingPlayerId.set(null);
-        this.playerErrorMessage.set('Failed to delete player. Check the API.');
+        this.notifications.error('Failed to delete player', error);
       }
     });
   }
 
   getPlayerName(player: Player): string {
-    const record = player as Record<string, unknown>;
-    const candidate =
-      record['name'] ??
-      record['playerName'] ??
-      record['username'] ??
-      record['displayName'] ??
-      record['id'];
-    return candidate ? String(candidate) : 'Unknown Player';
+    return player.playerName;
   }
 
   getWins(player: Player): number {
-    return this.coerceNumber(player, ['wins', 'winCount', 'totalWins', 'win_total']);
+    return player.wins;
   }
 
   getLosses(player: Player): number {
-    return this.coerceNumber(player, ['losses', 'lossCount', 'totalLosses', 'loss_total']);
+    return player.losses;
   }
 
   getWinPercentage(player: Player): string {
@@ -188,67 +196,20 @@ export class PlayersComponent implements OnInit {
   }
 
   getFavoriteDeck(player: Player): string {
-    const idKey = this.getPlayerIdKey(player);
-    const nameKey = this.getPlayerNameKey(player);
-
-    if (idKey) {
-      const favoriteById = this.favoriteDeckByKey().get(idKey);
-      if (favoriteById) {
-        return favoriteById;
-      }
-    }
-
-    if (nameKey) {
-      const favoriteByName = this.favoriteDeckByKey().get(nameKey);
-      if (favoriteByName) {
-        return favoriteByName;
-      }
-    }
-
-    return '—';
+    const key = getPlayerKey(player, this.players());
+    return (key && this.favoriteDeckByKey().get(key)) || '—';
   }
 
   getFormatLabel(format: FormatFilter): string {
     return format === 'cedh' ? 'cEDH' : format.charAt(0).toUpperCase() + format.slice(1);
   }
 
-  getPlayerId(player: Player): number | undefined {
-    const record = player as Record<string, unknown>;
-    const candidate =
-      record['playerID'] ??
-      record['playerId'] ??
-      record['player_id'] ??
-      record['id'];
-
-    if (typeof candidate === 'number' && Number.isFinite(candidate)) {
-      return candidate;
-    }
-
-    if (typeof candidate === 'string' && candidate.trim() !== '' && !Number.isNaN(Number(candidate))) {
-      return Number(candidate);
-    }
-
-    return undefined;
-  }
-
   getPlayerDeleteKey(player: Player): number | string | undefined {
-    const playerId = this.getPlayerId(player);
-    if (playerId !== undefined) {
-      return playerId;
-    }
-
-    const record = player as Record<string, unknown>;
-    const nameCandidate =
-      record['playerName'] ??
-      record['PlayerName'] ??
-      record['name'] ??
-      record['username'];
-
-    if (typeof nameCandidate === 'string' && nameCandidate.trim() !== '') {
-      return nameCandidate.trim();
+    if (player.playerId !== undefined) {
+      return player.playerId;
     }
 
-    return undefined;
+    return player.playerName.trim() || undefined;
   }
 
   getPlayerDeleteKeyString(player: Player): string {
@@ -256,138 +217,13 @@ export class PlayersComponent implements OnInit {
     return key === undefined ? '' : String(key);
   }
 
-  private getFormat(player: Player): 'casual' | 'cedh' | 'unknown' {
-    const record = player as Record<string, unknown>;
-    const candidate =
-      record['format'] ??
-      record['gameType'] ??
-      record['mode'] ??
-      record['type'] ??
-      record['playStyle'];
-
-    if (typeof candidate !== 'string') {
-      return 'unknown';
-    }
-
-    const normalized = candidate.toLowerCase();
-    if (normalized.includes('cedh')) {
-      return 'cedh';
-    }
-
-    if (normalized.includes('casual')) {
-      return 'casual';
-    }
-
-    return 'unknown';
-  }
-
-  private buildFavoriteDeckMap(matches: MatchRecord[]): Map<string, string> {
-    const counts = new Map<string, Map<string, number>>();
-
-    const bump = (playerKey: string, deckName: string | undefined) => {
-      if (!deckName) {
-        return;
-      }
-      const deckKey = deckName.trim();
-      if (!deckKey) {
-        return;
-      }
-      const deckMap = counts.get(playerKey) ?? new Map<string, number>();
-      deckMap.set(deckKey, (deckMap.get(deckKey) ?? 0) + 1);
-      counts.set(playerKey, deckMap);
-    };
-
-    matches.forEach((match) => {
-      if (match.playerID !== undefined) {
-        bump(`id:${match.playerID}`, match.deckName);
-      }
-
-      const record = match as Record<string, unknown>;
-      const opponentPairs = [
-        { name: record['opponentOne'], deck: record['opponentOneDeck'] },
-        { name: record['opponentTwo'], deck: record['opponentTwoDeck'] },
-        { name: record['opponentThree'], deck: record['opponentThreeDeck'] }
-      ];
-
-      opponentPairs.forEach((pair) => {
-        if (pair.name) {
-          bump(`name:${String(pair.name)}`, pair.deck ? String(pair.deck) : undefined);
-        }
-      });
-    });
-
-    const favorites = new Map<string, string>();
-    counts.forEach((deckMap, playerKey) => {
-      let bestDeck = '';
-      let bestCount = -1;
-      deckMap.forEach((count, deckName) => {
-        if (count > bestCount) {
-          bestCount = count;
-          bestDeck = deckName;
-        }
-      });
-      if (bestDeck) {
-        favorites.set(playerKey, bestDeck);
-      }
-    });
-
-    return favorites;
-  }
-
-  private getPlayerIdKey(player: Player): string | null {
-    const record = player as Record<string, unknown>;
-    const candidateId = record['playerID'] ?? record['playerId'] ?? record['id'];
-    if (typeof candidateId === 'number' && Number.isFinite(candidateId)) {
-      return `id:${candidateId}`;
-    }
-
-    if (typeof candidateId === 'string' && candidateId.trim() !== '' && !Number.isNaN(Number(candidateId))) {
-      return `id:${Number(candidateId)}`;
-    }
-
-    return null;
-  }
-
-  private getPlayerNameKey(player: Player): string | null {
-    const record = player as Record<string, unknown>;
-    const name = record['playerName'] ?? record['PlayerName'] ?? record['name'] ?? record['username'];
-    if (typeof name === 'string' && name.trim() !== '') {
-      return `name:${name.trim()}`;
-    }
-
-    return null;
-  }
-
-  private coerceNumber(player: Player, keys: string[]): number {
-    const record = player as Record<string, unknown>;
-    for (const key of keys) {
-      const value = record[key];
-      if (typeof value === 'number' && Number.isFinite(value)) {
-        return value;
-      }
-
-      if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
-        return Number(value);
-      }
-    }
-    return 0;
-  }
-
   private getWinPercentageValue(player: Player): number {
-    const record = player as Record<string, unknown>;
-    const direct = record['winPercentage'] ?? record['winPct'] ?? record['win_percent'];
-    if (typeof direct === 'number' && Number.isFinite(direct)) {
-      return direct;
-    }
-
-    const wins = this.getWins(player);
-    const losses = this.getLosses(player);
-    const total = wins + losses;
+    const total = player.wins + player.losses;
     if (!total) {
       return 0;
     }
 
-    return (wins / total) * 100;
+    return (player.wins / total) * 100;
   }
 
   private resetPlayerForm(): void {
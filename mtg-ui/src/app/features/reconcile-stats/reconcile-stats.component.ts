@@ -0,0 +1,175 @@
+import { Component, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { forkJoin } from 'rxjs';
+import { PlayerService } from '../../services/player.service';
+import { DeckService } from '../../services/deck.service';
+import { MatchService } from '../../services/match.service';
+import { NotificationService } from '../../services/notification.service';
+import {
+  StatsCorrection,
+  StatsLedgerService,
+  StatsUpdateReport
+} from '../../services/stats-ledger.service';
+import { Player } from '../../shared/models/player.model';
+import { Deck } from '../../shared/models/deck.model';
+import { Match } from '../../shared/models/match.model';
+import { StatCounters } from '../../shared/models/stats.model';
+
+type CounterKey = keyof StatCounters;
+
+interface StatDiffRow {
+  kind: 'player' | 'deck';
+  name: string;
+  stored: StatCounters;
+  expected: StatCounters;
+  changedKeys: CounterKey[];
+  correction: StatsCorrection;
+}
+
+@Component({
+  selector: 'app-reconcile-stats',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './reconcile-stats.component.html',
+  styleUrls: ['./reconcile-stats.component.scss']
+})
+export class ReconcileStatsComponent implements OnInit {
+  title = 'Reconcile Stats';
+
+  private playerService = inject(PlayerService);
+  private deckService = inject(DeckService);
+  private matchService = inject(MatchService);
+  private statsLedger = inject(StatsLedgerService);
+  private notifications = inject(NotificationService);
+
+  readonly counterKeys: CounterKey[] = ['wins', 'losses', 'ties', 'casualWins', 'casualLosses'];
+
+  players = signal<Player[]>([]);
+  decks = signal<Deck[]>([]);
+  matches = signal<Match[]>([]);
+  isLoading = signal(false);
+  isApplying = signal(false);
+
+  diffRows = computed(() => this.buildDiffRows());
+
+  ngOnInit(): void {
+    this.loadAll();
+  }
+
+  loadAll(): void {
+    this.isLoading.set(true);
+
+    forkJoin([
+      this.playerService.getAll(),
+      this.deckService.getAll(),
+      this.matchService.getAll()
+    ]).subscribe({
+      next: ([players, decks, matches]) => {
+        this.players.set(players);
+        this.decks.set(decks);
+        this.matches.set(matches);
+        this.isLoading.set(false);
+      },
+      error: (error) => {
+        this.isLoading.set(false);
+        this.notifications.error('Failed to load players, decks or matches', error);
+      }
+    });
+  }
+
+  applyCorrections(): void {
+    const rows = this.diffRows();
+    if (this.isApplying() || rows.length === 0) {
+      return;
+    }
+
+    if (!window.confirm(`Overwrite ${rows.length} stored stat line(s) with values rebuilt from history?`)) {
+      return;
+    }
+
+    this.isApplying.set(true);
+
+    this.statsLedger.overwrite(rows.map((row) => row.correction)).subscribe({
+      next: (report) => {
+        this.isApplying.set(false);
+        if (report.failed.length > 0) {
+          this.notifications.error(this.describeFailure(report));
+        } else {
+          this.notifications.success(`Corrected ${report.updated.length} stat line(s).`);
+        }
+        this.loadAll();
+      },
+      error: (error) => {
+        this.isApplying.set(false);
+        this.notifications.error('Failed to apply corrections', error);
+        this.loadAll();
+      }
+    });
+  }
+
+  getCounterLabel(key: CounterKey): string {
+    switch (key) {
+      case 'casualWins':
+        return 'Casual W';
+      case 'casualLosses':
+        return 'Casual L';
+      default:
+        return key.charAt(0).toUpperCase() + key.slice(1);
+    }
+  }
+
+  private buildDiffRows(): StatDiffRow[] {
+    const rebuilt = this.statsLedger.rebuild(this.matches(), this.players(), this.decks());
+    const rows: StatDiffRow[] = [];
+
+    this.players().forEach((player, index) => {
+      const expected = rebuilt.players[index];
+      const changedKeys = this.getChangedKeys(player, expected);
+      if (changedKeys.length > 0 && player.playerId !== undefined) {
+        rows.push({
+          kind: 'player',
+          name: player.playerName,
+          stored: player,
+          expected,
+          changedKeys,
+          correction: { kind: 'player', stored: player, expected }
+        });
+      }
+    });
+
+    this.decks().forEach((deck, index) => {
+      const expected = rebuilt.decks[index];
+      const changedKeys = this.getChangedKeys(deck, expected);
+      if (changedKeys.length > 0) {
+        rows.push({
+          kind: 'deck',
+          name: deck.deckName,
+          stored: deck,
+          expected,
+          changedKeys,
+          correction: { kind: 'deck', stored: deck, expected }
+        });
+      }
+    });
+
+    return rows;
+  }
+
+  private describeFailure(report: StatsUpdateReport): string {
+    const parts = [`Failed to correct ${report.failed.join(', ')}.`];
+
+    if (report.restored.length > 0) {
+      parts.push(`Put back ${report.restored.join(', ')}.`);
+    }
+
+    if (report.restoreFailed.length > 0) {
+      parts.push(`Could not put back ${report.restoreFailed.join(', ')}; review them below.`);
+    }
+
+    return parts.join(' ');
+  }
+
+  private getChangedKeys(stored: StatCounters, expected: StatCounters): CounterKey[] {
+    return this.counterKeys.filter((key) => stored[key] !== expected[key]);
+  }
+}
@@ -0,0 +1,111 @@
+import {
+  toAuthSession,
+  toDeck,
+  toDeckPayload,
+  toMatch,
+  toMatchRecord,
+  toMatchSeats,
+  toPlayer
+} from './api.adapter';
+
+describe('api.adapter', () => {
+  it('normalizes player key variants', () => {
+    const player = toPlayer({ PlayerName: 'Ethan', id: '7', Wins: '3', lossCount: 2 });
+
+    expect(player).toEqual({
+      playerId: 7,
+      playerName: 'Ethan',
+      version: undefined,
+      wins: 3,
+      losses: 2,
+      ties: 0,
+      casualWins: 0,
+      casualLosses: 0
+    });
+  });
+
+  it('writes decks back with the owner under playerID', () => {
+    const deck = toDeck({ DeckName: 'Atraxa', PlayerID: 4, wins: 1 });
+
+    expect(toDeckPayload(deck)).toEqual({
+      deckName: 'Atraxa',
+      playerID: 4,
+      version: undefined,
+      wins: 1,
+      losses: 0,
+      ties: 0,
+      casualWins: 0,
+      casualLosses: 0
+    });
+  });
+
+  it('reads decklist entries and writes them back only when present', () => {
+    const deck = toDeck({
+      deckName: 'Atraxa',
+      deckCards: [
+        { CardNumber: '190', set: 'ONE', isCommander: 'true' },
+        { cardNumber: 1, setName: 'CMR', qty: 2 },
+        { quantity: 4 }
+      ]
+    });
+
+    expect(deck.cards).toEqual([
+      { cardNumber: 190, setName: 'ONE', quantity: 1, commander: true },
+      { cardNumber: 1, setName: 'CMR', quantity: 2, commander: false }
+    ]);
+    expect(toDeckPayload(deck).cards).toEqual(deck.cards);
+    expect('cards' in toDeckPayload(toDeck({ deckName: 'Kinnan' }))).toBeFalse();
+  });
+
+  it('reads seat results from flags', () => {
+    const match = toMatch({
+      matchID: 12,
+      seats: [
+        { playerName: 'A', deckName: 'X', isWinner: true },
+        { playerName: 'B', deckName: 'Y', won: 'false' },
+        { playerName: 'C', deckName: 'Z', isTie: 1 }
+      ]
+    });
+
+    expect(match.matchId).toBe(12);
+    expect(match.seats?.map((seat) => seat.result)).toEqual(['win', 'loss', 'tie']);
+  });
+
+  it('converts flat legacy records into seats', () => {
+    const seats = toMatchSeats(toMatch({
+      playerID: 3,
+      deckName: 'Atraxa',
+      winnerName: 'Ethan',
+      result: 'WIN',
+      playerWin: true,
+      opponentOne: 'Sam',
+      opponentOneDeck: 'Kinnan'
+    }));
+
+    expect(seats).toEqual([
+      jasmine.objectContaining({ seat: 1, playerId: 3, playerName: 'Ethan', deckName: 'Atraxa', result: 'win', placement: 1 }),
+      jasmine.objectContaining({ seat: 2, playerName: 'Sam', deckName: 'Kinnan', result: 'loss', placement: 2 })
+    ]);
+  });
+
+  it('writes seats in the seat-array shape', () => {
+    const record = toMatchRecord({
+      format: 'CEDH',
+      seats: [{ seat: 1, playerId: 3, playerName: 'Ethan', deckName: 'Atraxa', result: 'win', placement: 1 }]
+    });
+
+    expect(record.seats).toEqual([
+      { seat: 1, playerID: 3, playerName: 'Ethan', deckName: 'Atraxa', result: 'WIN', placement: 1 }
+    ]);
+  });
+
+  it('reads the role from a login response and defaults to viewer', () => {
+    expect(toAuthSession({ accessToken: 't1', roles: ['ROLE_ADMIN'] }, 'ethan')).toEqual({
+      token: 't1',
+      username: 'ethan',
+      role: 'admin'
+    });
+    expect(toAuthSession({ token: 't2' }, 'sam')?.role).toBe('viewer');
+    expect(toAuthSession({ username: 'sam' }, 'sam')).toBeNull();
+  });
+});
@@ -0,0 +1,511 @@
+import { AuthSession, UserRole } from '../shared/models/auth.model';
+import { Deck, DeckCard } from '../shared/models/deck.model';
+import { Match, MatchResult, MatchSeat } from '../shared/models/match.model';
+import { Player } from '../shared/models/player.model';
+import { FormatFilter, StatCounters } from '../shared/models/stats.model';
+
+/**
+ * Converts between whatever field spellings the API returns and the typed
+ * models the components work with. Nothing outside the services should need
+ * to read a raw API record.
+ */
+
+type ApiRecord = Record<string, unknown>;
+
+export interface PlayerPayload extends StatCounters {
+  playerId?: number;
+  playerName: string;
+  version?: string;
+}
+
+export interface DeckPayload extends StatCounters {
+  deckName: string;
+  playerID?: number;
+  version?: string;
+  cards?: DeckCardRecord[];
+}
+
+export interface DeckCardRecord {
+  cardNumber: number;
+  setName: string;
+  quantity: number;
+  commander: boolean;
+}
+
+export interface MatchRecord {
+  matchID?: number;
+  playerID?: number;
+  deckName?: string;
+  winnerName?: string;
+  format?: string;
+  playerWin?: boolean;
+  opponentOne?: string;
+  opponentOneDeck?: string;
+  opponentTwo?: string;
+  opponentTwoDeck?: string;
+  opponentThree?: string;
+  opponentThreeDeck?: string;
+  result?: string;
+  playedAt?: string;
+  seats?: ApiRecord[];
+}
+
+const WIN_KEYS = ['wins', 'Wins', 'winCount', 'totalWins', 'win_total'];
+const LOSS_KEYS = ['losses', 'Losses', 'lossCount', 'totalLosses', 'loss_total'];
+const TIE_KEYS = ['ties', 'Ties', 'tieCount', 'totalTies'];
+const CASUAL_WIN_KEYS = ['casualWins', 'CasualWins'];
+const CASUAL_LOSS_KEYS = ['casualLosses', 'CasualLosses'];
+
+export function toPlayer(raw: unknown): Player {
+  const record = asRecord(raw);
+  const playerId = readNumber(record, ['playerID', 'playerId', 'player_id', 'id']);
+  const playerName = readString(record, ['playerName', 'PlayerName', 'name', 'username', 'displayName']);
+
+  return {
+    playerId,
+    playerName: playerName ?? (playerId !== undefined ? String(playerId) : 'Unknown Player'),
+    version: readVersion(record),
+    ...readCounters(record)
+  };
+}
+
+export function toDeck(raw: unknown): Deck {
+  const record = asRecord(raw);
+  const deckId = readNumber(record, ['deckID', 'deckId', 'deck_id', 'id']);
+  const deckName = readString(record, ['deckName', 'DeckName', 'name', 'title', 'displayName']);
+  const cards = readArray(record, ['cards', 'deckCards', 'decklist']);
+
+  return {
+    deckId,
+    deckName: deckName ?? (deckId !== undefined ? String(deckId) : 'Unknown Deck'),
+    ownerId: readNumber(record, ['playerID', 'PlayerID', 'playerId', 'ownerId']),
+    version: readVersion(record),
+    ...readCounters(record),
+    ...(cards ? { cards: cards.map(toDeckCard).filter((card) => card.setName !== '') } : {})
+  };
+}
+
+/**
+ * Decklist entries only reference a card by its collection key; the name,
+ * type and price stay on the card itself.
+ */
+export function toDeckCard(raw: unknown): DeckCard {
+  const record = asRecord(raw);
+
+  return {
+    cardNumber: readNumber(record, ['cardNumber', 'CardNumber', 'number']) ?? 0,
+    setName: readString(record, ['setName', 'SetName', 'set']) ?? '',
+    quantity: readNumber(record, ['quantity', 'qty', 'count']) ?? 1,
+    commander: readBoolean(record, ['commander', 'isCommander']) ?? false
+  };
+}
+
+export function toMatch(raw: unknown): Match {
+  const record = asRecord(raw);
+  const seats = record['seats'];
+
+  return {
+    matchId: readNumber(record, ['matchID', 'matchId', 'id']),
+    playerId: readNumber(record, ['playerID', 'playerId']),
+    deckName: readString(record, ['deckName', 'DeckName']),
+    winnerName: readString(record, ['winnerName', 'WinnerName']),
+    format: readString(record, ['format', 'Format']),
+    playerWin: readBoolean(record, ['playerWin', 'PlayerWin']),
+    opponentOne: readString(record, ['opponentOne']),
+    opponentOneDeck: readString(record, ['opponentOneDeck']),
+    opponentTwo: readString(record, ['opponentTwo']),
+    opponentTwoDeck: readString(record, ['opponentTwoDeck']),
+    opponentThree: readString(record, ['opponentThree']),
+    opponentThreeDeck: readString(record, ['opponentThreeDeck']),
+    result: readString(record, ['result', 'Result']),
+    playedAt: readString(record, ['playedAt', 'playedOn', 'createdAt']),
+    seats: Array.isArray(seats) ? seats.map((seat, index) => toMatchSeat(seat, index)) : undefined
+  };
+}
+
+export function toAuthSession(raw: unknown, username: string): AuthSession | null {
+  const record = asRecord(raw);
+  const token = readString(record, ['token', 'accessToken', 'access_token', 'jwt']);
+  if (!token) {
+    return null;
+  }
+
+  return {
+    token,
+    username: readString(record, ['username', 'userName', 'name']) ?? username,
+    role: toUserRole(record)
+  };
+}
+
+/**
+ * Anything short of an explicit admin role is treated as a viewer, so a
+ * response without role information never unlocks editing.
+ */
+export function toUserRole(raw: unknown): UserRole {
+  const record = asRecord(raw);
+  const roles = record['roles'];
+  const names = [
+    readString(record, ['role', 'Role']),
+    ...(Array.isArray(roles) ? roles.filter((role): role is string => typeof role === 'string') : [])
+  ];
+  return names.some((name) => name?.trim().toLowerCase().replace(/^role_/, '') === 'admin')
+    ? 'admin'
+    : 'viewer';
+}
+
+export function toMatchSeat(raw: unknown, index: number): MatchSeat {
+  const record = asRecord(raw);
+  const result = readSeatResult(record);
+
+  return {
+    seat: readNumber(record, ['seat', 'seatNumber', 'Seat']) ?? index + 1,
+    playerId: readNumber(record, ['playerID', 'playerId', 'player_id']),
+    playerName: readString(record, ['playerName', 'name', 'username', 'player']),
+    deckName: readString(record, ['deckName', 'DeckName', 'deck', 'title']),
+    result,
+    placement: readNumber(record, ['placement', 'place', 'finish']) ?? placementFor(result),
+    format: readString(record, ['format', 'Format'])
+  };
+}
+
+/**
+ * Returns every seat of a match with its result filled in. Matches saved with
+ * a `seats` array are used as-is; older records that only have the flat
+ * `playerID`/`opponentOne`.. columns are converted here, so callers never
+ * need to know which shape they were given.
+ */
+export function toMatchSeats(match: Match): MatchSeat[] {
+  const seats = match.seats ?? synthesizeSeats(match);
+  return seats.map((seat) => {
+    const result = resolveSeatResult(seat, match);
+    return { ...seat, result, placement: seat.placement ?? placementFor(result) };
+  });
+}
+
+export interface SeatPlayer {
+  key: string;
+  label: string;
+}
+
+/**
+ * Identifies the player in a seat the same way wherever seats are compared:
+ * by id when the seat has one or its name matches a known player, otherwise
+ * by name. Seats that name no player resolve to null.
+ */
+export function createSeatPlayerResolver(
+  players: Player[]
+): (seat: MatchSeat) => SeatPlayer | null {
+  const idsByName = new Map(
+    players
+      .filter((player) => player.playerId !== undefined)
+      .map((player) => [player.playerName.trim().toLowerCase(), player.playerId])
+  );
+  const namesById = new Map(players.map((player) => [player.playerId, player.playerName]));
+
+  return (seat) => {
+    const name = seat.playerName?.trim();
+    const playerId = seat.playerId ?? (name ? idsByName.get(name.toLowerCase()) : undefined);
+    if (playerId !== undefined) {
+      const label = namesById.get(playerId) ?? name ?? `Player ${playerId}`;
+      return { key: `id:${playerId}`, label };
+    }
+    return name ? { key: `name:${name.toLowerCase()}`, label: name } : null;
+  };
+}
+
+export function isCasualFormat(value?: string): boolean {
+  return !!value && value.toLowerCase().includes('casual');
+}
+
+/**
+ * Keeps only the seats played in the given format. A seat's own format wins
+ * over the match's, and anything not marked casual counts as cEDH.
+ */
+export function filterMatchesByFormat(matches: Match[], format: FormatFilter): Match[] {
+  if (format === 'all') {
+    return matches;
+  }
+
+  const wantCasual = format === 'casual';
+  return matches.map((match) => ({
+    ...match,
+    seats: toMatchSeats(match).filter(
+      (seat) => isCasualFormat(seat.format ?? match.format) === wantCasual
+    )
+  }));
+}
+
+export function placementFor(result: MatchResult | null): number | undefined {
+  if (result === 'win' || result === 'tie') {
+    return 1;
+  }
+  return result === 'loss' ? 2 : undefined;
+}
+
+export function toPlayerPayload(player: Player): PlayerPayload {
+  return {
+    playerId: player.playerId,
+    playerName: player.playerName,
+    version: player.version,
+    ...pickCounters(player)
+  };
+}
+
+export function toDeckPayload(deck: Deck): DeckPayload {
+  return {
+    deckName: deck.deckName,
+    playerID: deck.ownerId,
+    version: deck.version,
+    ...pickCounters(deck),
+    ...(deck.cards ? { cards: deck.cards.map(toDeckCardRecord) } : {})
+  };
+}
+
+export function toDeckCardRecord(card: DeckCard): DeckCardRecord {
+  return {
+    cardNumber: card.cardNumber,
+    setName: card.setName,
+    quantity: card.quantity,
+    commander: card.commander
+  };
+}
+
+export function toMatchRecord(match: Match): MatchRecord {
+  return {
+    matchID: match.matchId,
+    playerID: match.playerId,
+    deckName: match.deckName,
+    winnerName: match.winnerName,
+    format: match.format,
+    playerWin: match.playerWin,
+    opponentOne: match.opponentOne,
+    opponentOneDeck: match.opponentOneDeck,
+    opponentTwo: match.opponentTwo,
+    opponentTwoDeck: match.opponentTwoDeck,
+    opponentThree: match.opponentThree,
+    opponentThreeDeck: match.opponentThreeDeck,
+    result: match.result,
+    playedAt: match.playedAt,
+    seats: match.seats?.map((seat) => ({
+      seat: seat.seat,
+      playerID: seat.playerId,
+      playerName: seat.playerName,
+      deckName: seat.deckName,
+      result: seat.result ? seat.result.toUpperCase() : undefined,
+      placement: seat.placement
+    }))
+  };
+}
+
+export function toMatchResult(value?: string): MatchResult | null {
+  if (!value) {
+    return null;
+  }
+
+  const normalized = value.toLowerCase();
+  if (normalized.includes('tie')) {
+    return 'tie';
+  }
+
+  if (normalized.includes('win')) {
+    return 'win';
+  }
+
+  if (normalized.includes('loss')) {
+    return 'loss';
+  }
+
+  return null;
+}
+
+function synthesizeSeats(match: Match): MatchSeat[] {
+  const seats: MatchSeat[] = [];
+  const matchResult = toMatchResult(match.result);
+
+  if (match.playerId || match.deckName || match.winnerName) {
+    seats.push({
+      seat: 1,
+      playerId: match.playerId,
+      deckName: match.deckName,
+      playerName: matchResult === 'tie' ? undefined : match.winnerName,
+      result: matchResult ?? (match.playerWin ? 'win' : 'loss'),
+      format: match.format
+    });
+  }
+
+  const opponents = [
+    { name: match.opponentOne, deck: match.opponentOneDeck },
+    { name: match.opponentTwo, deck: match.opponentTwoDeck },
+    { name: match.opponentThree, deck: match.opponentThreeDeck }
+  ];
+
+  opponents.forEach((opponent) => {
+    if (opponent.name) {
+      seats.push({
+        seat: seats.length + 1,
+        playerName: opponent.name,
+        deckName: opponent.deck,
+        result: resolveOpponentResult(opponent.name, match),
+        format: match.format
+      });
+    }
+  });
+
+  return seats;
+}
+
+function resolveSeatResult(seat: MatchSeat, match: Match): MatchResult | null {
+  if (seat.result) {
+    return seat.result;
+  }
+
+  const matchResult = toMatchResult(match.result);
+  if (matchResult === 'tie') {
+    return 'tie';
+  }
+
+  if (seat.playerId !== undefined && match.playerId !== undefined) {
+    if (seat.playerId === match.playerId && typeof match.playerWin === 'boolean') {
+      return match.playerWin ? 'win' : 'loss';
+    }
+  }
+
+  if (seat.playerName && match.winnerName) {
+    if (seat.playerName.trim().toLowerCase() === match.winnerName.trim().toLowerCase()) {
+      return 'win';
+    }
+    if (matchResult === 'win') {
+      return 'loss';
+    }
+  }
+
+  return null;
+}
+
+function resolveOpponentResult(opponentName: string, match: Match): MatchResult | null {
+  const matchResult = toMatchResult(match.result);
+  if (matchResult === 'tie') {
+    return 'tie';
+  }
+
+  if (match.winnerName && opponentName.trim().toLowerCase() === match.winnerName.trim().toLowerCase()) {
+    return 'win';
+  }
+
+  if (matchResult === 'win' || matchResult === 'loss') {
+    return 'loss';
+  }
+
+  return null;
+}
+
+function readSeatResult(record: ApiRecord): MatchResult | null {
+  const direct = toMatchResult(
+    readString(record, ['result', 'Result', 'outcome', 'outcomeType', 'resultType', 'status'])
+  );
+  if (direct) {
+    return direct;
+  }
+
+  if (readBoolean(record, ['tie', 'isTie'])) {
+    return 'tie';
+  }
+
+  const winFlag = readBoolean(record, ['playerWin', 'isWinner', 'winner', 'won', 'win']);
+  if (winFlag !== undefined) {
+    return winFlag ? 'win' : 'loss';
+  }
+
+  return null;
+}
+
+function readCounters(record: ApiRecord): StatCounters {
+  return {
+    wins: readNumber(record, WIN_KEYS) ?? 0,
+    losses: readNumber(record, LOSS_KEYS) ?? 0,
+    ties: readNumber(record, TIE_KEYS) ?? 0,
+    casualWins: readNumber(record, CASUAL_WIN_KEYS) ?? 0,
+    casualLosses: readNumber(record, CASUAL_LOSS_KEYS) ?? 0
+  };
+}
+
+function readVersion(record: ApiRecord): string | undefined {
+  const version = readNumber(record, ['version', 'Version', 'rowVersion']);
+  return version !== undefined ? String(version) : readString(record, ['version', 'Version', 'rowVersion', 'etag']);
+}
+
+function pickCounters(counters: StatCounters): StatCounters {
+  return {
+    wins: counters.wins,
+    losses: counters.losses,
+    ties: counters.ties,
+    casualWins: counters.casualWins,
+    casualLosses: counters.casualLosses
+  };
+}
+
+function asRecord(raw: unknown): ApiRecord {
+  return raw !== null && typeof raw === 'object' ? (raw as ApiRecord) : {};
+}
+
+function readNumber(record: ApiRecord, keys: string[]): number | undefined {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return value;
+    }
+
+    if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+      return Number(value);
+    }
+  }
+  return undefined;
+}
+
+function readString(record: ApiRecord, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === 'string' && value.trim() !== '') {
+      return value.trim();
+    }
+  }
+  return undefined;
+}
+
+function readArray(record: ApiRecord, keys: string[]): unknown[] | undefined {
+  for (const key of keys) {
+    const value = record[key];
+    if (Array.isArray(value)) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function readBoolean(record: ApiRecord, keys: string[]): boolean | undefined {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === 'boolean') {
+      return value;
+    }
+
+    if (typeof value === 'string' && value.trim() !== '') {
+      if (value.toLowerCase() === 'true') {
+        return true;
+      }
+      if (value.toLowerCase() === 'false') {
+        return false;
+      }
+    }
+
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      if (value === 1) {
+        return true;
+      }
+      if (value === 0) {
+        return false;
+      }
+    }
+  }
+  return undefined;
+}
@@ -1,15 +1,19 @@
 import { inject } from '@angular/core';
-import { CanActivateFn } from '@angular/router';
+import { CanActivateFn, Router } from '@angular/router';
 import { PLATFORM_ID } from '@angular/core';
 import { isPlatformBrowser } from '@angular/common';
+import { AuthService } from './auth.service';
 
-export const authGuard: CanActivateFn = () => {
+export const authGuard: CanActivateFn = (_route, state) => {
   const platformId = inject(PLATFORM_ID);
 
   if (!isPlatformBrowser(platformId)) {
     return true;
   }
 
-  const token = localStorage.getItem('token');
-  return !!token;
+  if (inject(AuthService).isLoggedIn()) {
+    return true;
+  }
+
+  return inject(Router).createUrlTree(['/login'], { queryParams: { returnUrl: state.url } });
 };
@@ -0,0 +1,71 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { Router, provideRouter } from '@angular/router';
+import { authInterceptor } from './auth.interceptor';
+import { AuthService } from './auth.service';
+
+describe('authInterceptor', () => {
+  let http: HttpClient;
+  let controller: HttpTestingController;
+  let auth: AuthService;
+  let router: Router;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({
+      providers: [
+        provideZonelessChangeDetection(),
+        provideRouter([]),
+        provideHttpClient(withInterceptors([authInterceptor])),
+        provideHttpClientTesting()
+      ]
+    });
+    http = TestBed.inject(HttpClient);
+    controller = TestBed.inject(HttpTestingController);
+    auth = TestBed.inject(AuthService);
+    router = TestBed.inject(Router);
+  });
+
+  afterEach(() => {
+    controller.verify();
+    localStorage.clear();
+  });
+
+  const logIn = () => {
+    auth.login('ethan', 'secret').subscribe();
+    controller.expectOne('/api/auth/login').flush({ token: 'abc123' });
+  };
+
+  it('attaches the token to /api calls only', () => {
+    logIn();
+
+    http.get('/api/player').subscribe();
+    http.get('/assets/logo.svg').subscribe();
+
+    expect(controller.expectOne('/api/player').request.headers.get('Authorization')).toBe('Bearer abc123');
+    expect(controller.expectOne('/assets/logo.svg').request.headers.has('Authorization')).toBeFalse();
+  });
+
+  it('clears the session and redirects to login on 401', () => {
+    logIn();
+    const navigate = spyOn(router, 'navigate').and.resolveTo(true);
+
+    http.get('/api/deck').subscribe({ error: () => undefined });
+    controller.expectOne('/api/deck').flush(null, { status: 401, statusText: 'Unauthorized' });
+
+    expect(auth.isLoggedIn()).toBeFalse();
+    expect(localStorage.getItem('authSession')).toBeNull();
+    expect(navigate).toHaveBeenCalledWith(['/login'], jasmine.anything());
+  });
+
+  it('leaves a failed login to the login form', () => {
+    const navigate = spyOn(router, 'navigate');
+
+    auth.login('ethan', 'wrong').subscribe({ error: () => undefined });
+    controller.expectOne('/api/auth/login').flush(null, { status: 401, statusText: 'Unauthorized' });
+
+    expect(navigate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,35 @@
+import { PLATFORM_ID, inject } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
+import { Router } from '@angular/router';
+import { catchError, throwError } from 'rxjs';
+import { AuthService } from './auth.service';
+
+/**
+ * Sends the session token with every `/api` call. A 401 means the token is no
+ * longer accepted, so the session is dropped and the user is sent to log in
+ * again, coming back to the page they were on.
+ */
+export const authInterceptor: HttpInterceptorFn = (req, next) => {
+  if (!req.url.startsWith('/api')) {
+    return next(req);
+  }
+
+  const auth = inject(AuthService);
+  const router = inject(Router);
+  const isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+  const token = auth.token();
+  const request = token ? req.clone({ setHeaders: { Authorization: `Bearer ${token}` } }) : req;
+
+  return next(request).pipe(
+    catchError((error: unknown) => {
+      const unauthorized = error instanceof HttpErrorResponse && error.status === 401;
+      if (unauthorized && isBrowser && !auth.isLoginRequest(req.url)) {
+        auth.clearSession();
+        const returnUrl = router.url.startsWith('/login') ? undefined : router.url;
+        router.navigate(['/login'], { queryParams: returnUrl ? { returnUrl } : {} });
+      }
+      return throwError(() => error);
+    })
+  );
+};
@@ -0,0 +1,96 @@
+import { Injectable, PLATFORM_ID, computed, inject, signal } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { HttpClient } from '@angular/common/http';
+import { Router } from '@angular/router';
+import { Observable, map } from 'rxjs';
+import { AuthSession, UserRole } from '../shared/models/auth.model';
+import { toAuthSession, toUserRole } from './api.adapter';
+
+const STORAGE_KEY = 'authSession';
+
+/**
+ * Holds the signed-in session. The session lives in local storage so a reload
+ * keeps the user signed in; on the server there is never a session.
+ *
+ * Admins can change data; viewers can only look. The API still has the final
+ * say, so the role here only decides what the UI offers.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AuthService {
+  private http = inject(HttpClient);
+  private router = inject(Router);
+  private platformId = inject(PLATFORM_ID);
+  private readonly loginUrl = '/api/auth/login';
+
+  readonly session = signal<AuthSession | null>(this.readSession());
+  readonly token = computed(() => this.session()?.token ?? null);
+  readonly isLoggedIn = computed(() => this.token() !== null);
+  readonly role = computed<UserRole | null>(() => this.session()?.role ?? null);
+
+  hasRole(role: UserRole): boolean {
+    const current = this.role();
+    return current === 'admin' || current === role;
+  }
+
+  isLoginRequest(url: string): boolean {
+    return url === this.loginUrl;
+  }
+
+  login(username: string, password: string): Observable<AuthSession> {
+    return this.http.post<unknown>(this.loginUrl, { username, password }, {
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json'
+      }
+    }).pipe(
+      map((data) => {
+        const session = toAuthSession(data, username);
+        if (!session) {
+          throw new Error('The login response did not include a token.');
+        }
+        this.writeSession(session);
+        return session;
+      })
+    );
+  }
+
+  logout(): void {
+    this.clearSession();
+    this.router.navigate(['/login']);
+  }
+
+  clearSession(): void {
+    this.writeSession(null);
+  }
+
+  private readSession(): AuthSession | null {
+    if (!isPlatformBrowser(this.platformId)) {
+      return null;
+    }
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+      if (!stored || typeof stored.token !== 'string') {
+        return null;
+      }
+      return { token: stored.token, username: String(stored.username ?? ''), role: toUserRole(stored) };
+    } catch {
+      return null;
+    }
+  }
+
+  private writeSession(session: AuthSession | null): void {
+    this.session.set(session);
+    if (!isPlatformBrowser(this.platformId)) {
+      return;
+    }
+
+    if (session) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { matchesCardQuery, parseCardQuery } from './card-query';
+import { Card } from '../shared/models/card.model';
+
+describe('card-query', () => {
+  const solRing: Card = {
+    cardNumber: 472,
+    setName: 'CMR',
+    cardName: 'Sol Ring',
+    cardType: 'Artifact',
+    cardCondition: 'NM',
+    manaValue: 1,
+    price: 1.5,
+    stock: 4
+  };
+  const craterhoof: Card = {
+    cardNumber: 180,
+    setName: 'AVR',
+    cardName: 'Craterhoof Behemoth',
+    cardType: 'Creature — Beast',
+    cardCondition: 'LP',
+    manaValue: 8,
+    price: 42,
+    stock: 1
+  };
+
+  it('splits free text from filters', () => {
+    const query = parseCardQuery('sol ring type:artifact mv<=3 set:CMR price>1 cond:NM');
+
+    expect(query.text).toBe('sol ring');
+    expect(query.filters).toEqual([
+      { field: 'type', operator: ':', value: 'artifact' },
+      { field: 'mv', operator: '<=', value: '3' },
+      { field: 'set', operator: ':', value: 'CMR' },
+      { field: 'price', operator: '>', value: '1' },
+      { field: 'cond', operator: ':', value: 'NM' }
+    ]);
+    expect(query.errors).toEqual([]);
+  });
+
+  it('keeps quoted phrases together', () => {
+    const query = parseCardQuery('"sol ring" name:"craterhoof behemoth"');
+
+    expect(query.text).toBe('sol ring');
+    expect(query.filters).toEqual([{ field: 'name', operator: ':', value: 'craterhoof behemoth' }]);
+  });
+
+  it('reports unknown fields and bad values instead of guessing', () => {
+    const query = parseCardQuery('rarity:mythic mv<=x type>3');
+
+    expect(query.filters).toEqual([]);
+    expect(query.errors.length).toBe(3);
+  });
+
+  it('filters cards by type, mana value, set, price and condition', () => {
+    const cheapArtifacts = parseCardQuery('type:artifact mv<=3 set:cmr cond:nm');
+    const pricey = parseCardQuery('price>5');
+    const notCreatures = parseCardQuery('type!=creature');
+
+    expect(matchesCardQuery(solRing, cheapArtifacts)).toBeTrue();
+    expect(matchesCardQuery(craterhoof, cheapArtifacts)).toBeFalse();
+    const cards = [solRing, craterhoof];
+    expect(cards.filter((card) => matchesCardQuery(card, pricey))).toEqual([craterhoof]);
+    expect(cards.filter((card) => matchesCardQuery(card, notCreatures))).toEqual([solRing]);
+  });
+});
@@ -0,0 +1,160 @@
+import { Card } from '../shared/models/card.model';
+
+/**
+ * A small search language for the card collection, parsed on the client:
+ *
+ *   sol ring type:artifact mv<=3 set:CMR price>5 cond:NM name:"sol ring"
+ *
+ * Anything that is not a `field<op>value` term is free text and goes to the
+ * API search; the filters are then applied to whatever the API returns.
+ * Text fields accept `:` (contains), `=` (exact) and `!=` (does not
+ * contain); set and condition always compare whole codes. Numeric fields
+ * accept `:`/`=`, `!=`, `<`, `<=`, `>` and `>=`.
+ */
+
+export type CardQueryField = 'type' | 'set' | 'cond' | 'name' | 'mv' | 'price' | 'stock' | 'number';
+export type CardQueryOperator = ':' | '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export interface CardFilter {
+  field: CardQueryField;
+  operator: CardQueryOperator;
+  value: string;
+}
+
+export interface CardQuery {
+  text: string;
+  filters: CardFilter[];
+  errors: string[];
+}
+
+const FIELD_ALIASES: Record<string, CardQueryField> = {
+  type: 'type',
+  t: 'type',
+  set: 'set',
+  s: 'set',
+  cond: 'cond',
+  condition: 'cond',
+  name: 'name',
+  n: 'name',
+  mv: 'mv',
+  cmc: 'mv',
+  manavalue: 'mv',
+  price: 'price',
+  usd: 'price',
+  stock: 'stock',
+  qty: 'stock',
+  number: 'number',
+  cn: 'number'
+};
+
+const NUMERIC_FIELDS: CardQueryField[] = ['mv', 'price', 'stock', 'number'];
+const TEXT_OPERATORS: CardQueryOperator[] = [':', '=', '!='];
+const TOKEN_PATTERN = /([a-z]+(?:<=|>=|!=|:|=|<|>)"[^"]*")|"([^"]*)"|(\S+)/gi;
+const FILTER_PATTERN = /^([a-z]+)(<=|>=|!=|:|=|<|>)(.*)$/i;
+
+export function parseCardQuery(input: string): CardQuery {
+  const text: string[] = [];
+  const filters: CardFilter[] = [];
+  const errors: string[] = [];
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const token = match[1] ?? match[3];
+    if (match[2] !== undefined) {
+      text.push(match[2]);
+      continue;
+    }
+
+    const filter = FILTER_PATTERN.exec(token);
+    const field = filter ? FIELD_ALIASES[filter[1].toLowerCase()] : undefined;
+    if (!filter || !field) {
+      if (filter && filter[3] !== '') {
+        errors.push(`Unknown filter "${filter[1]}".`);
+      } else {
+        text.push(token);
+      }
+      continue;
+    }
+
+    const operator = filter[2] as CardQueryOperator;
+    const value = filter[3].replace(/^"|"$/g, '').trim();
+    if (!value) {
+      errors.push(`"${token}" needs a value.`);
+      continue;
+    }
+
+    if (NUMERIC_FIELDS.includes(field)) {
+      if (!Number.isFinite(Number(value))) {
+        errors.push(`"${filter[1]}" needs a number, not "${value}".`);
+        continue;
+      }
+    } else if (!TEXT_OPERATORS.includes(operator)) {
+      errors.push(`"${filter[1]}" only supports :, = and !=.`);
+      continue;
+    }
+
+    filters.push({ field, operator, value });
+  }
+
+  return { text: text.join(' ').trim(), filters, errors };
+}
+
+export function matchesCardQuery(card: Card, query: CardQuery): boolean {
+  return query.filters.every((filter) => matchesFilter(card, filter));
+}
+
+function matchesFilter(card: Card, filter: CardFilter): boolean {
+  if (NUMERIC_FIELDS.includes(filter.field)) {
+    const actual = readNumberField(card, filter.field);
+    return compareNumber(actual, filter.operator, Number(filter.value));
+  }
+
+  const actual = readTextField(card, filter.field).trim().toLowerCase();
+  const expected = filter.value.toLowerCase();
+  const exactOnly = filter.field === 'set' || filter.field === 'cond';
+  const matches =
+    filter.operator !== '=' && !exactOnly ? actual.includes(expected) : actual === expected;
+  return filter.operator === '!=' ? !matches : matches;
+}
+
+function compareNumber(actual: number, operator: CardQueryOperator, expected: number): boolean {
+  switch (operator) {
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+    case '!=':
+      return actual !== expected;
+    default:
+      return actual === expected;
+  }
+}
+
+function readNumberField(card: Card, field: CardQueryField): number {
+  switch (field) {
+    case 'mv':
+      return Number(card.manaValue ?? 0);
+    case 'price':
+      return Number(card.price ?? 0);
+    case 'stock':
+      return Number(card.stock ?? 0);
+    default:
+      return Number(card.cardNumber ?? 0);
+  }
+}
+
+function readTextField(card: Card, field: CardQueryField): string {
+  switch (field) {
+    case 'type':
+      return card.cardType ?? '';
+    case 'set':
+      return card.setName ?? '';
+    case 'cond':
+      return card.cardCondition ?? '';
+    default:
+      return card.cardName ?? '';
+  }
+}
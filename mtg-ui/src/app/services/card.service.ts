@@ -16,11 +16,11 @@ export class CardService {
   }
 
   getOne(cardNumber: number, setName: string): Observable<Card> {
-    return this.http.get<Card>(`${this.baseUrl}/${cardNumber}/${setName}`);
+    return this.http.get<Card>(this.cardUrl(cardNumber, setName));
   }
 
   search(query: string): Observable<Card[]> {
-    return this.http.get<Card[]>(`${this.baseUrl}/search?q=${query}`);
+    return this.http.get<Card[]>(`${this.baseUrl}/search`, { params: { q: query } });
   }
 
   create(card: Card): Observable<Card> {
@@ -28,10 +28,14 @@ export class CardService {
   }
 
   update(cardNumber: number, setName: string, dto: Partial<Card>): Observable<Card> {
-    return this.http.put<Card>(`${this.baseUrl}/${cardNumber}/${setName}`, dto);
+    return this.http.put<Card>(this.cardUrl(cardNumber, setName), dto);
   }
 
   delete(cardNumber: number, setName: string): Observable<void> {
-    return this.http.delete<void>(`${this.baseUrl}/${cardNumber}/${setName}`);
+    return this.http.delete<void>(this.cardUrl(cardNumber, setName));
+  }
+
+  private cardUrl(cardNumber: number, setName: string): string {
+    return `${this.baseUrl}/${encodeURIComponent(String(cardNumber))}/${encodeURIComponent(setName)}`;
   }
 }
@@ -0,0 +1,71 @@
+import { CommanderDeckRow, validateCommanderDeck } from './commander-validator';
+import { Card } from '../shared/models/card.model';
+
+describe('commander-validator', () => {
+  const card = (cardNumber: number, cardName: string, colorIdentity?: string[]): Card => ({
+    cardNumber,
+    setName: 'CMR',
+    cardName,
+    cardType: cardName === 'Island' ? 'Basic Land — Island' : 'Creature',
+    cardCondition: 'NM',
+    manaValue: 2,
+    price: 1,
+    stock: 1,
+    colorIdentity
+  });
+  const row = (item: Card, quantity = 1, commander = false): CommanderDeckRow => ({
+    entry: { cardNumber: item.cardNumber, setName: item.setName, quantity, commander },
+    card: item
+  });
+  const commander = row(card(1, 'Tymna the Weaver', ['W', 'B']), 1, true);
+  const partner = row(card(2, 'Kraum, Ludevic’s Opus', ['U', 'R']), 1, true);
+
+  it('accepts 100 singleton cards inside the commander colours', () => {
+    const rows = [
+      commander,
+      row(card(3, 'Sol Ring', [])),
+      row(card(4, 'Swords to Plowshares', ['W'])),
+      row(card(5, 'Plains', ['W']), 97)
+    ];
+
+    expect(validateCommanderDeck(rows)).toEqual({
+      cardCount: 100,
+      colorIdentity: ['W', 'B'],
+      warnings: []
+    });
+  });
+
+  it('flags the card count, repeated non-basics and off-colour cards', () => {
+    const rows = [
+      commander,
+      row(card(3, 'Sol Ring', []), 2),
+      row(card(6, 'Counterspell', ['U'])),
+      row(card(7, 'Island', ['U']), 3)
+    ];
+
+    expect(validateCommanderDeck(rows).warnings).toEqual([
+      'The deck has 7 cards; Commander decks need exactly 100.',
+      'Sol Ring appears 2 times; only basic lands can repeat.',
+      "Counterspell (U) is outside the commander's WB.",
+      "Island (U) is outside the commander's WB."
+    ]);
+  });
+
+  it('combines partner colours and reports what it could not check', () => {
+    const rows = [
+      commander,
+      partner,
+      row(card(6, 'Counterspell', ['U'])),
+      row(card(8, 'Mystery Card')),
+      { entry: { cardNumber: 9, setName: 'ONE', quantity: 96, commander: false } }
+    ];
+    const result = validateCommanderDeck(rows);
+
+    expect(result.colorIdentity).toEqual(['W', 'U', 'B', 'R']);
+    expect(result.warnings).toEqual([
+      'Not in the card collection, so not checked: ONE #9.',
+      'No colour identity recorded, so not checked: Mystery Card.'
+    ]);
+    expect(validateCommanderDeck(rows.slice(2)).warnings[0]).toBe('Mark a commander.');
+  });
+});
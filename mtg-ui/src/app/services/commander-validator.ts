@@ -0,0 +1,128 @@
+import { Card } from '../shared/models/card.model';
+import { DeckCard } from '../shared/models/deck.model';
+
+/**
+ * Checks a decklist against the Commander deck-building rules: exactly 100
+ * cards including the commander, one or two commanders, no more than one
+ * copy of any card other than basic lands, and every card's colour identity
+ * inside the commanders' combined identity.
+ *
+ * Different printings of a card count as the same card. Entries whose card
+ * is missing from the collection, or has no colour identity recorded, are
+ * reported instead of being silently treated as legal.
+ */
+
+export interface CommanderDeckRow {
+  entry: DeckCard;
+  card?: Card;
+}
+
+export interface CommanderValidation {
+  cardCount: number;
+  colorIdentity: string[];
+  warnings: string[];
+}
+
+export const COMMANDER_DECK_SIZE = 100;
+
+const COLOR_ORDER = ['W', 'U', 'B', 'R', 'G'];
+const BASIC_LAND_NAMES = ['plains', 'island', 'swamp', 'mountain', 'forest', 'wastes'];
+
+export function validateCommanderDeck(rows: CommanderDeckRow[]): CommanderValidation {
+  const warnings: string[] = [];
+  const cardCount = rows.reduce((total, row) => total + row.entry.quantity, 0);
+  const commanders = rows.filter((row) => row.entry.commander);
+
+  if (commanders.length === 0) {
+    warnings.push('Mark a commander.');
+  } else if (commanders.length > 2) {
+    warnings.push(`A deck can have at most two commanders, not ${commanders.length}.`);
+  }
+
+  if (cardCount !== COMMANDER_DECK_SIZE) {
+    warnings.push(
+      `The deck has ${cardCount} cards; Commander decks need exactly ${COMMANDER_DECK_SIZE}.`
+    );
+  }
+
+  const missing = rows.filter((row) => !row.card);
+  if (missing.length > 0) {
+    const keys = missing.map((row) => `${row.entry.setName} #${row.entry.cardNumber}`);
+    warnings.push(`Not in the card collection, so not checked: ${keys.join(', ')}.`);
+  }
+
+  warnings.push(...findSingletonViolations(rows));
+
+  const colorIdentity = normalizeColors(commanders.flatMap((row) => row.card?.colorIdentity ?? []));
+  const commandersWithoutColors = commanders.filter((row) => !row.card?.colorIdentity);
+  if (commanders.length > 0 && commandersWithoutColors.length > 0) {
+    const names = commandersWithoutColors.map(
+      (row) => row.card?.cardName ?? `${row.entry.setName} #${row.entry.cardNumber}`
+    );
+    warnings.push(
+      `No colour identity recorded for ${names.join(' and ')}; colours were not checked.`
+    );
+  } else if (commanders.length > 0) {
+    warnings.push(...findColorViolations(rows, colorIdentity));
+  }
+
+  return { cardCount, colorIdentity, warnings };
+}
+
+export function isBasicLand(card: Card): boolean {
+  const type = card.cardType.toLowerCase();
+  const name = card.cardName.toLowerCase().replace(/^snow-covered /, '');
+  return (type.includes('basic') && type.includes('land')) || BASIC_LAND_NAMES.includes(name);
+}
+
+export function normalizeColors(colors: string[]): string[] {
+  const upper = new Set(colors.map((color) => color.trim().toUpperCase()));
+  return COLOR_ORDER.filter((color) => upper.has(color));
+}
+
+function findSingletonViolations(rows: CommanderDeckRow[]): string[] {
+  const copies = new Map<string, { name: string; count: number }>();
+
+  rows.forEach(({ entry, card }) => {
+    if (!card || isBasicLand(card)) {
+      return;
+    }
+    const key = card.cardName.trim().toLowerCase();
+    const existing = copies.get(key);
+    copies.set(key, { name: card.cardName, count: (existing?.count ?? 0) + entry.quantity });
+  });
+
+  return [...copies.values()]
+    .filter((item) => item.count > 1)
+    .map((item) => `${item.name} appears ${item.count} times; only basic lands can repeat.`);
+}
+
+function findColorViolations(rows: CommanderDeckRow[], colorIdentity: string[]): string[] {
+  const warnings: string[] = [];
+  const unknown: string[] = [];
+  const allowed = colorIdentity.join('') || 'colourless';
+
+  rows.forEach(({ entry, card }) => {
+    if (!card || entry.commander) {
+      return;
+    }
+    if (!card.colorIdentity) {
+      unknown.push(card.cardName);
+      return;
+    }
+
+    const outside = normalizeColors(card.colorIdentity).filter(
+      (color) => !colorIdentity.includes(color)
+    );
+    if (outside.length > 0) {
+      warnings.push(
+        `${card.cardName} (${outside.join('')}) is outside the commander's ${allowed}.`
+      );
+    }
+  });
+
+  if (unknown.length > 0) {
+    warnings.push(`No colour identity recorded, so not checked: ${unknown.join(', ')}.`);
+  }
+  return warnings;
+}
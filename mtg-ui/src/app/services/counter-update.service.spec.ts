@@ -0,0 +1,102 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { CounterUpdateService } from './counter-update.service';
+import { StatCounters } from '../shared/models/stats.model';
+
+describe('CounterUpdateService', () => {
+  let service: CounterUpdateService;
+  let http: HttpTestingController;
+
+  const win: StatCounters = { wins: 1, losses: 0, ties: 0, casualWins: 0, casualLosses: 0 };
+  const loss: StatCounters = { wins: 0, losses: 1, ties: 0, casualWins: 0, casualLosses: 0 };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection(), provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(CounterUpdateService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => http.verify());
+
+  it('sends the version it read as If-Match', () => {
+    service.adjustPlayer(1, win).subscribe();
+
+    http.expectOne('/api/player/1').flush(
+      { playerId: 1, playerName: 'Ethan', wins: 4, losses: 2 },
+      { headers: { ETag: '"v7"' } }
+    );
+
+    const put = http.expectOne({ method: 'PUT', url: '/api/player/1' });
+    expect(put.request.headers.get('If-Match')).toBe('"v7"');
+    expect(put.request.body.wins).toBe(5);
+    put.flush({ playerId: 1, playerName: 'Ethan', wins: 5, losses: 2 });
+  });
+
+  it('re-reads and retries when a concurrent save wins the race', () => {
+    let firstResult = -1;
+    let secondResult = -1;
+
+    service.adjustPlayer(1, win).subscribe((player) => (firstResult = player.wins));
+    service.adjustPlayer(1, win).subscribe((player) => (secondResult = player.wins));
+
+    const reads = http.match({ method: 'GET', url: '/api/player/1' });
+    expect(reads.length).toBe(2);
+    reads.forEach((read) => read.flush({ playerId: 1, playerName: 'Ethan', wins: 3, version: 1 }));
+
+    const writes = http.match({ method: 'PUT', url: '/api/player/1' });
+    expect(writes.map((write) => write.request.body.wins)).toEqual([4, 4]);
+    writes[0].flush({ playerId: 1, playerName: 'Ethan', wins: 4, version: 2 });
+    writes[1].flush('stale version', { status: 412, statusText: 'Precondition Failed' });
+
+    http.expectOne({ method: 'GET', url: '/api/player/1' })
+      .flush({ playerId: 1, playerName: 'Ethan', wins: 4, version: 2 });
+
+    const retry = http.expectOne({ method: 'PUT', url: '/api/player/1' });
+    expect(retry.request.body.wins).toBe(5);
+    expect(retry.request.headers.get('If-Match')).toBe('2');
+    retry.flush({ playerId: 1, playerName: 'Ethan', wins: 5, version: 3 });
+
+    expect(firstResult).toBe(4);
+    expect(secondResult).toBe(5);
+  });
+
+  it('gives up after repeated conflicts', () => {
+    let failed = false;
+    service.adjustDeck('Atraxa', loss).subscribe({ error: () => (failed = true) });
+
+    for (let attempt = 0; attempt < 4; attempt++) {
+      http.expectOne({ method: 'GET', url: '/api/deck/Atraxa' }).flush({ deckName: 'Atraxa', losses: attempt });
+      http.expectOne({ method: 'PUT', url: '/api/deck/Atraxa' })
+        .flush('conflict', { status: 409, statusText: 'Conflict' });
+    }
+
+    expect(failed).toBeTrue();
+  });
+
+  it('does not retry other errors', () => {
+    let status = 0;
+    service.adjustDeck('Atraxa', loss).subscribe({ error: (error) => (status = error.status) });
+
+    http.expectOne({ method: 'GET', url: '/api/deck/Atraxa' }).flush({ deckName: 'Atraxa' });
+    http.expectOne({ method: 'PUT', url: '/api/deck/Atraxa' })
+      .flush('boom', { status: 500, statusText: 'Server Error' });
+
+    expect(status).toBe(500);
+  });
+
+  it('fails instead of clamping a counter below zero', () => {
+    let message = '';
+    service.adjustDeck('Atraxa', { ...loss, losses: -1 }).subscribe({
+      error: (error: Error) => (message = error.message)
+    });
+
+    http.expectOne({ method: 'GET', url: '/api/deck/Atraxa' }).flush({ deckName: 'Atraxa' });
+    http.expectNone({ method: 'PUT', url: '/api/deck/Atraxa' });
+
+    expect(message).toContain('below zero');
+  });
+});
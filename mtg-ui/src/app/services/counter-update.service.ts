@@ -0,0 +1,94 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, switchMap } from 'rxjs';
+import { PlayerService } from './player.service';
+import { DeckService } from './deck.service';
+import { retryOnConflict } from './version-retry';
+import { Player } from '../shared/models/player.model';
+import { Deck } from '../shared/models/deck.model';
+import { StatCounters } from '../shared/models/stats.model';
+
+const COUNTER_KEYS: Array<keyof StatCounters> = [
+  'wins',
+  'losses',
+  'ties',
+  'casualWins',
+  'casualLosses'
+];
+
+/**
+ * Adds a delta to a player's or deck's stored counters without clobbering a
+ * concurrent writer. Each attempt re-reads the record, sends its version back
+ * as `If-Match`, and starts over when the API answers 409 or 412.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CounterUpdateService {
+  private playerService = inject(PlayerService);
+  private deckService = inject(DeckService);
+
+  adjustPlayer(playerId: number, delta: StatCounters): Observable<Player> {
+    return this.updatePlayer(playerId, (player) => this.addCounters(player, delta));
+  }
+
+  adjustDeck(deckName: string, delta: StatCounters): Observable<Deck> {
+    return this.updateDeck(deckName, (deck) => this.addCounters(deck, delta));
+  }
+
+  /** Overwrites the counters outright, with the same version check as an adjustment. */
+  setPlayerCounters(playerId: number, counters: StatCounters): Observable<Player> {
+    return this.updatePlayer(playerId, (player) => this.copyCounters(player, counters));
+  }
+
+  setDeckCounters(deckName: string, counters: StatCounters): Observable<Deck> {
+    return this.updateDeck(deckName, (deck) => this.copyCounters(deck, counters));
+  }
+
+  private updatePlayer(playerId: number, change: (player: Player) => Player): Observable<Player> {
+    return retryOnConflict(() =>
+      this.playerService.getById(playerId).pipe(
+        switchMap((player) => this.playerService.update(playerId, change(player)))
+      )
+    );
+  }
+
+  private updateDeck(deckName: string, change: (deck: Deck) => Deck): Observable<Deck> {
+    return retryOnConflict(() =>
+      this.deckService.getById(deckName).pipe(
+        switchMap((deck) => this.deckService.update(deckName, change(deck)))
+      )
+    );
+  }
+
+  private copyCounters<T extends StatCounters>(target: T, counters: StatCounters): T {
+    return {
+      ...target,
+      wins: counters.wins,
+      losses: counters.losses,
+      ties: counters.ties,
+      casualWins: counters.casualWins,
+      casualLosses: counters.casualLosses
+    };
+  }
+
+  /**
+   * Applies the delta as-is. A counter that would go negative means the stored
+   * stats no longer match history; clamping it would make apply and revert
+   * stop cancelling out, so the update fails and the ledger rolls back instead.
+   */
+  private addCounters<T extends StatCounters>(target: T, delta: StatCounters): T {
+    const next = {
+      ...target,
+      wins: target.wins + delta.wins,
+      losses: target.losses + delta.losses,
+      ties: target.ties + delta.ties,
+      casualWins: target.casualWins + delta.casualWins,
+      casualLosses: target.casualLosses + delta.casualLosses
+    };
+
+    if (COUNTER_KEYS.some((key) => next[key] < 0)) {
+      throw new Error('This would drop a stat counter below zero. Run Reconcile Stats first.');
+    }
+    return next;
+  }
+}
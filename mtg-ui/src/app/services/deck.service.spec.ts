@@ -0,0 +1,49 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { DeckService } from './deck.service';
+
+describe('DeckService', () => {
+  let service: DeckService;
+  let http: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection(), provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(DeckService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => http.verify());
+
+  it('saves a decklist onto the latest counters', () => {
+    const cards = [{ cardNumber: 472, setName: 'CMR', quantity: 1, commander: false }];
+    service.updateCards('Atraxa', cards).subscribe();
+
+    http.expectOne({ method: 'GET', url: '/api/deck/Atraxa' })
+      .flush({ deckName: 'Atraxa', wins: 9 }, { headers: { ETag: '"v3"' } });
+
+    const put = http.expectOne({ method: 'PUT', url: '/api/deck/Atraxa' });
+    expect(put.request.headers.get('If-Match')).toBe('"v3"');
+    expect(put.request.body.wins).toBe(9);
+    expect(put.request.body.cards).toEqual(cards);
+    put.flush({ deckName: 'Atraxa', wins: 9, cards });
+  });
+
+  it('re-reads the deck when the decklist save hits a version conflict', () => {
+    const cards = [{ cardNumber: 472, setName: 'CMR', quantity: 1, commander: false }];
+    service.updateCards('Atraxa', cards).subscribe();
+
+    http.expectOne('/api/deck/Atraxa').flush({ deckName: 'Atraxa', wins: 9 });
+    http
+      .expectOne({ method: 'PUT', url: '/api/deck/Atraxa' })
+      .flush(null, { status: 412, statusText: 'Precondition Failed' });
+
+    http.expectOne('/api/deck/Atraxa').flush({ deckName: 'Atraxa', wins: 10 });
+    const put = http.expectOne({ method: 'PUT', url: '/api/deck/Atraxa' });
+    expect(put.request.body.wins).toBe(10);
+    put.flush({ deckName: 'Atraxa', wins: 10, cards });
+  });
+});
@@ -1,8 +1,9 @@
 import { Injectable, inject } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
-import { Observable } from 'rxjs';
-
-export type Deck = Record<string, unknown>;
+import { Observable, map, switchMap } from 'rxjs';
+import { Deck, DeckCard } from '../shared/models/deck.model';
+import { toDeck, toDeckPayload } from './api.adapter';
+import { retryOnConflict } from './version-retry';
 
 @Injectable({
   providedIn: 'root'
@@ -12,34 +13,55 @@ export class DeckService {
   private readonly baseUrl = '/api';
 
   getAll(): Observable<Deck[]> {
-    return this.http.get<Deck[]>(`${this.baseUrl}/deck`, {
+    return this.http.get<unknown[]>(`${this.baseUrl}/deck`, {
       headers: { 'Accept': 'application/json' }
-    });
+    }).pipe(
+      map((data) => (data ?? []).map(toDeck))
+    );
   }
 
-  getById(deckID: number): Observable<Deck> {
-    return this.http.get<Deck>(`${this.baseUrl}/deck/${deckID}`, {
-      headers: { 'Accept': 'application/json' }
-    });
+  getById(deckID: number | string): Observable<Deck> {
+    const deckKey = encodeURIComponent(String(deckID));
+    return this.http.get<unknown>(`${this.baseUrl}/deck/${deckKey}`, {
+      headers: { 'Accept': 'application/json' },
+      observe: 'response'
+    }).pipe(
+      map((response) => {
+        const deck = toDeck(response.body);
+        return { ...deck, version: response.headers.get('ETag') ?? deck.version };
+      })
+    );
   }
 
-  create(payload: Deck): Observable<Deck> {
-    return this.http.post<Deck>(`${this.baseUrl}/deck`, payload, {
+  create(deck: Deck): Observable<Deck> {
+    return this.http.post<unknown>(`${this.baseUrl}/deck`, toDeckPayload(deck), {
       headers: {
         'Accept': 'application/json',
         'Content-Type': 'application/json'
       }
-    });
+    }).pipe(
+      map(toDeck)
+    );
   }
 
-  update(deckID: number | string, payload: Deck): Observable<Deck> {
+  update(deckID: number | string, deck: Deck): Observable<Deck> {
     const deckKey = encodeURIComponent(String(deckID));
-    return this.http.put<Deck>(`${this.baseUrl}/deck/${deckKey}`, payload, {
+    return this.http.put<unknown>(`${this.baseUrl}/deck/${deckKey}`, toDeckPayload(deck), {
       headers: {
         'Accept': 'application/json',
-        'Content-Type': 'application/json'
+        'Content-Type': 'application/json',
+        ...(deck.version ? { 'If-Match': deck.version } : {})
       }
-    });
+    }).pipe(
+      map((data) => (data ? toDeck(data) : deck))
+    );
+  }
+
+  /** Writes only the decklist, onto the latest version so newer counters are kept. */
+  updateCards(deckName: string, cards: DeckCard[]): Observable<Deck> {
+    return retryOnConflict(() =>
+      this.getById(deckName).pipe(switchMap((deck) => this.update(deckName, { ...deck, cards })))
+    );
   }
 
   delete(deckID: number | string): Observable<void> {
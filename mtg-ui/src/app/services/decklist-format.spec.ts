@@ -0,0 +1,160 @@
+import {
+  DecklistExportRow,
+  formatDecklistCsv,
+  formatDecklistJson,
+  formatDecklistText,
+  parseDecklist
+} from './decklist-format';
+import { Card } from '../shared/models/card.model';
+
+describe('decklist-format', () => {
+  const card = (cardNumber: number, setName: string, cardName: string, price: number): Card => ({
+    cardNumber,
+    setName,
+    cardName,
+    cardType: 'Legendary Creature',
+    cardCondition: 'NM',
+    manaValue: 4,
+    price,
+    stock: 1
+  });
+  const rows: DecklistExportRow[] = [
+    {
+      entry: { cardNumber: 190, setName: '2X2', quantity: 1, commander: true },
+      card: card(190, '2X2', "Atraxa, Praetors' Voice", 12.5)
+    },
+    {
+      entry: { cardNumber: 472, setName: 'CMR', quantity: 1, commander: false },
+      card: card(472, 'CMR', 'Sol Ring', 1)
+    },
+    {
+      entry: { cardNumber: 5, setName: 'MID', quantity: 2, commander: false },
+      card: card(5, 'MID', 'Delver of Secrets // Insectile Aberration', 0.25)
+    }
+  ];
+
+  it('reads Arena sections with set codes and collector numbers', () => {
+    const parsed = parseDecklist(
+      [
+        'About',
+        'Name Atraxa Superfriends',
+        '',
+        'Commander',
+        "1 Atraxa, Praetors' Voice (2X2) 190",
+        '',
+        'Deck',
+        '1x Sol Ring (CMR) 472 *F*',
+        '2 Forest',
+        'Sideboard:',
+        '1 Swords to Plowshares'
+      ].join('\n')
+    );
+
+    expect(parsed.problems).toEqual([]);
+    expect(parsed.lines).toEqual([
+      jasmine.objectContaining({
+        lineNumber: 5,
+        quantity: 1,
+        cardName: "Atraxa, Praetors' Voice",
+        setName: '2X2',
+        cardNumber: 190,
+        section: 'commander'
+      }),
+      jasmine.objectContaining({
+        cardName: 'Sol Ring',
+        setName: 'CMR',
+        cardNumber: 472,
+        section: 'deck'
+      }),
+      jasmine.objectContaining({ quantity: 2, cardName: 'Forest', setName: undefined }),
+      jasmine.objectContaining({ cardName: 'Swords to Plowshares', section: 'sideboard' })
+    ]);
+  });
+
+  it('accepts MTGO lines without quantities and reports lines it cannot read', () => {
+    const parsed = parseDecklist('// main\r\nCounterspell\r\n0 Island\r\n4 Brainstorm (STA) ★');
+
+    expect(parsed.lines.map((line) => [line.quantity, line.cardName, line.cardNumber])).toEqual([
+      [1, 'Counterspell', undefined],
+      [4, 'Brainstorm', undefined]
+    ]);
+    expect(parsed.problems).toEqual([
+      { lineNumber: 3, text: '0 Island', reason: 'Quantity must be at least 1.' }
+    ]);
+  });
+
+  it('round-trips Arena text through the parser', () => {
+    const parsed = parseDecklist(formatDecklistText(rows, 'arena'));
+
+    expect(parsed.problems).toEqual([]);
+    expect(
+      parsed.lines.map((line) => [
+        line.quantity,
+        line.cardName,
+        line.setName,
+        line.cardNumber,
+        line.section === 'commander'
+      ])
+    ).toEqual(
+      rows.map((row) => [
+        row.entry.quantity,
+        row.card?.cardName,
+        row.entry.setName,
+        row.entry.cardNumber,
+        row.entry.commander
+      ])
+    );
+  });
+
+  it('round-trips MTGO text through the parser without set codes', () => {
+    const text = formatDecklistText(rows, 'mtgo');
+    const parsed = parseDecklist(text);
+
+    expect(text).toContain('Commander:\n1 Atraxa, Praetors\' Voice\n\nDeck:\n1 Sol Ring\n');
+    expect(parsed.lines.map((line) => [line.quantity, line.cardName, line.section])).toEqual([
+      [1, "Atraxa, Praetors' Voice", 'commander'],
+      [1, 'Sol Ring', 'deck'],
+      [2, 'Delver of Secrets // Insectile Aberration', 'deck']
+    ]);
+  });
+
+  it('writes a card missing from the collection by set and number and reads it back', () => {
+    const unknown: DecklistExportRow = {
+      entry: { cardNumber: 307, setName: 'LEA', quantity: 1, commander: false }
+    };
+
+    (['arena', 'mtgo'] as const).forEach((style) => {
+      const text = formatDecklistText([unknown], style);
+      const parsed = parseDecklist(text);
+
+      expect(text).toContain('\n1 (LEA) 307\n');
+      expect(parsed.problems).toEqual([]);
+      expect(parsed.lines.map((line) => [line.cardName, line.setName, line.cardNumber])).toEqual([
+        ['', 'LEA', 307]
+      ]);
+    });
+    expect(formatDecklistCsv([unknown]).split('\r\n')[1]).toBe('1,,LEA,307,,,no');
+  });
+
+  it('quotes CSV values and writes JSON with the card details', () => {
+    const csv = formatDecklistCsv(rows).split('\r\n');
+
+    expect(csv[0]).toBe('Quantity,Name,Set,Number,Condition,Price,Commander');
+    expect(csv[1]).toBe('1,"Atraxa, Praetors\' Voice",2X2,190,NM,12.50,yes');
+    expect(csv[3]).toBe('2,Delver of Secrets // Insectile Aberration,MID,5,NM,0.25,no');
+    expect(JSON.parse(formatDecklistJson('Atraxa', rows.slice(1, 2)))).toEqual({
+      deckName: 'Atraxa',
+      cards: [
+        {
+          quantity: 1,
+          cardName: 'Sol Ring',
+          setName: 'CMR',
+          cardNumber: 472,
+          commander: false,
+          cardCondition: 'NM',
+          price: 1
+        }
+      ]
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { Card } from '../shared/models/card.model';
+import { DeckCard } from '../shared/models/deck.model';
+
+/** MTGO/Arena decklist text (`1 Sol Ring (CMR) 472`) that round-trips, plus CSV and JSON. */
+
+export type DecklistSection = 'commander' | 'deck' | 'sideboard';
+
+export interface DecklistLine {
+  lineNumber: number;
+  text: string;
+  quantity: number;
+  cardName: string;
+  setName?: string;
+  cardNumber?: number;
+  section: DecklistSection;
+}
+
+export interface DecklistProblem {
+  lineNumber: number;
+  text: string;
+  reason: string;
+}
+
+export type DecklistTextStyle = 'arena' | 'mtgo';
+
+export interface DecklistExportRow {
+  entry: DeckCard;
+  card?: Card;
+}
+
+export interface ParsedDecklist {
+  lines: DecklistLine[];
+  problems: DecklistProblem[];
+}
+
+const SECTION_HEADERS: Record<string, DecklistSection | 'about'> = {
+  about: 'about',
+  commander: 'commander',
+  commanders: 'commander',
+  deck: 'deck',
+  main: 'deck',
+  mainboard: 'deck',
+  sideboard: 'sideboard',
+  maybeboard: 'sideboard',
+  companion: 'sideboard'
+};
+
+const HEADER_PATTERN = /^([a-z]+)\s*:?$/i;
+// The name may be left out when a set and number follow, as in `1 (CMR) 472`.
+const CARD_PATTERN = /^(?:(\d+)x?\s+)?(.*?)\s*(?:\(([a-z0-9]+)\)(?:\s+(\S+))?)?(?:\s+\*[a-z]+\*)?$/i;
+
+export function parseDecklist(input: string): ParsedDecklist {
+  const lines: DecklistLine[] = [];
+  const problems: DecklistProblem[] = [];
+  let section: DecklistSection | 'about' = 'deck';
+
+  input.split(/\r?\n/).forEach((rawLine, index) => {
+    const text = rawLine.trim();
+    const lineNumber = index + 1;
+    if (!text || text.startsWith('//') || text.startsWith('#')) {
+      return;
+    }
+
+    const header = HEADER_PATTERN.exec(text);
+    const headerSection = header ? SECTION_HEADERS[header[1].toLowerCase()] : undefined;
+    if (headerSection) {
+      section = headerSection;
+      return;
+    }
+    if (section === 'about') {
+      return;
+    }
+
+    const card = CARD_PATTERN.exec(text);
+    if (!card) {
+      problems.push({ lineNumber, text, reason: 'Expected a line like "1 Sol Ring (CMR) 472".' });
+      return;
+    }
+
+    const quantity = card[1] === undefined ? 1 : Number(card[1]);
+    if (quantity < 1) {
+      problems.push({ lineNumber, text, reason: 'Quantity must be at least 1.' });
+      return;
+    }
+
+    const collectorNumber = card[4] ? parseInt(card[4], 10) : NaN;
+    const cardNumber = Number.isFinite(collectorNumber) ? collectorNumber : undefined;
+    if (!card[2] && cardNumber === undefined) {
+      problems.push({ lineNumber, text, reason: 'Expected a card name or a set and number.' });
+      return;
+    }
+
+    lines.push({
+      lineNumber,
+      text,
+      quantity,
+      cardName: card[2],
+      setName: card[3]?.toUpperCase(),
+      cardNumber,
+      section
+    });
+  });
+
+  return { lines, problems };
+}
+
+export function formatDecklistText(rows: DecklistExportRow[], style: DecklistTextStyle): string {
+  const formatLine = (row: DecklistExportRow) => {
+    const printing = `(${row.entry.setName}) ${row.entry.cardNumber}`;
+    if (!row.card) {
+      return `${row.entry.quantity} ${printing}`;
+    }
+    const line = `${row.entry.quantity} ${row.card.cardName}`;
+    return style === 'arena' ? `${line} ${printing}` : line;
+  };
+  const commanders = rows.filter((row) => row.entry.commander).map(formatLine);
+  const deck = rows.filter((row) => !row.entry.commander).map(formatLine);
+  const headers = style === 'arena' ? ['Commander', 'Deck'] : ['Commander:', 'Deck:'];
+
+  return [
+    ...(commanders.length > 0 ? [headers[0], ...commanders, ''] : []),
+    headers[1],
+    ...deck,
+    ''
+  ].join('\n');
+}
+
+export function formatDecklistCsv(rows: DecklistExportRow[]): string {
+  const header = ['Quantity', 'Name', 'Set', 'Number', 'Condition', 'Price', 'Commander'];
+  const lines = rows.map((row) => [
+    row.entry.quantity,
+    row.card?.cardName ?? '',
+    row.entry.setName,
+    row.entry.cardNumber,
+    row.card?.cardCondition ?? '',
+    row.card ? row.card.price.toFixed(2) : '',
+    row.entry.commander ? 'yes' : 'no'
+  ]);
+
+  return [header, ...lines].map((values) => values.map(toCsvValue).join(',')).join('\r\n') + '\r\n';
+}
+
+export function formatDecklistJson(deckName: string, rows: DecklistExportRow[]): string {
+  const cards = rows.map((row) => ({
+    quantity: row.entry.quantity,
+    cardName: row.card?.cardName,
+    setName: row.entry.setName,
+    cardNumber: row.entry.cardNumber,
+    commander: row.entry.commander,
+    cardCondition: row.card?.cardCondition,
+    price: row.card?.price
+  }));
+  return JSON.stringify({ deckName, cards }, null, 2);
+}
+
+function toCsvValue(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,110 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { HttpErrorResponse } from '@angular/common/http';
+import { firstValueFrom, of, throwError } from 'rxjs';
+import { DecklistImportService } from './decklist-import.service';
+import { CardService } from './card.service';
+import { Card } from '../shared/models/card.model';
+
+describe('DecklistImportService', () => {
+  const card = (cardNumber: number, setName: string, cardName: string): Card => ({
+    cardNumber,
+    setName,
+    cardName,
+    cardType: 'Artifact',
+    cardCondition: 'NM',
+    manaValue: 1,
+    price: 1,
+    stock: 1
+  });
+  const collection = [
+    card(472, 'CMR', 'Sol Ring'),
+    card(1, 'C21', 'Sol Ring'),
+    card(190, '2X2', "Atraxa, Praetors' Voice"),
+    card(5, 'MID', 'Delver of Secrets // Insectile Aberration')
+  ];
+
+  let importer: DecklistImportService;
+  let searchError: HttpErrorResponse | null;
+
+  beforeEach(() => {
+    searchError = null;
+    TestBed.configureTestingModule({
+      providers: [
+        provideZonelessChangeDetection(),
+        {
+          provide: CardService,
+          useValue: {
+            getOne: (cardNumber: number, setName: string) => {
+              const found = collection.find(
+                (item) => item.cardNumber === cardNumber && item.setName === setName
+              );
+              return found ? of(found) : throwError(() => new HttpErrorResponse({ status: 404 }));
+            },
+            search: (query: string) =>
+              searchError
+                ? throwError(() => searchError)
+                : of(
+                    collection.filter((item) =>
+                      item.cardName.toLowerCase().includes(query.toLowerCase())
+                    )
+                  )
+          }
+        }
+      ]
+    });
+    importer = TestBed.inject(DecklistImportService);
+  });
+
+  it('matches by set and number, falls back to name search and merges duplicates', async () => {
+    const result = await firstValueFrom(
+      importer.import(
+        [
+          'Commander',
+          "1 Atraxa, Praetors' Voice (2X2) 190",
+          'Deck',
+          '1 Sol Ring (C21) 999',
+          '1 Sol Ring (C21)',
+          '1 Delver of Secrets'
+        ].join('\n')
+      )
+    );
+
+    expect(result.entries).toEqual([
+      { cardNumber: 190, setName: '2X2', quantity: 1, commander: true },
+      { cardNumber: 1, setName: 'C21', quantity: 2, commander: false },
+      { cardNumber: 5, setName: 'MID', quantity: 1, commander: false }
+    ]);
+    expect(result.cards.length).toBe(3);
+    expect(result.unmatched).toEqual([]);
+  });
+
+  it('reports unmatched and unreadable lines and skips the sideboard', async () => {
+    const result = await firstValueFrom(
+      importer.import('1 Sol Ring\n1 Black Lotus\nnot a card (\nSideboard\n1 Sol Ring')
+    );
+
+    expect(result.entries).toEqual([
+      { cardNumber: 472, setName: 'CMR', quantity: 1, commander: false }
+    ]);
+    expect(result.unmatched.map((problem) => problem.lineNumber)).toEqual([2, 3]);
+    expect(result.skipped).toBe(1);
+  });
+
+  it('looks up a line with no card name by its set and number', async () => {
+    const result = await firstValueFrom(importer.import('1 (CMR) 472\n1 (CMR) 999'));
+
+    expect(result.entries).toEqual([
+      { cardNumber: 472, setName: 'CMR', quantity: 1, commander: false }
+    ]);
+    expect(result.unmatched.map((problem) => problem.reason)).toEqual([
+      'No card (CMR) 999 in the collection.'
+    ]);
+  });
+
+  it('fails the import when a lookup fails for a reason other than a miss', async () => {
+    searchError = new HttpErrorResponse({ status: 0 });
+
+    await expectAsync(firstValueFrom(importer.import('1 Sol Ring'))).toBeRejectedWith(searchError);
+  });
+});
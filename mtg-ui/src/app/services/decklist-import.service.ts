@@ -0,0 +1,146 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+import {
+  Observable,
+  catchError,
+  from,
+  map,
+  mergeMap,
+  of,
+  switchMap,
+  throwError,
+  toArray
+} from 'rxjs';
+import { CardService } from './card.service';
+import { DecklistLine, DecklistProblem, parseDecklist } from './decklist-format';
+import { Card } from '../shared/models/card.model';
+import { DeckCard } from '../shared/models/deck.model';
+
+export interface DecklistImportResult {
+  entries: DeckCard[];
+  cards: Card[];
+  unmatched: DecklistProblem[];
+  skipped: number;
+}
+
+interface ResolvedLine {
+  line: DecklistLine;
+  card: Card | null;
+}
+
+const MAX_CONCURRENT_LOOKUPS = 4;
+
+/**
+ * Turns exported decklist text into deck entries. Lines with a set and
+ * collector number are looked up directly; anything else, or a direct lookup
+ * that misses, falls back to a name search. Lines that match no card, or
+ * that could not be read at all, come back in `unmatched` instead of failing
+ * the whole import. Sideboard lines are counted in `skipped`.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DecklistImportService {
+  private cardService = inject(CardService);
+
+  import(text: string): Observable<DecklistImportResult> {
+    const parsed = parseDecklist(text);
+    const mainLines = parsed.lines.filter((line) => line.section !== 'sideboard');
+
+    return from(mainLines).pipe(
+      mergeMap(
+        (line) => this.findCard(line).pipe(map((card): ResolvedLine => ({ line, card }))),
+        MAX_CONCURRENT_LOOKUPS
+      ),
+      toArray(),
+      map((resolved) => {
+        const ordered = resolved.sort((a, b) => a.line.lineNumber - b.line.lineNumber);
+        return {
+          ...this.buildEntries(ordered),
+          unmatched: [
+            ...parsed.problems,
+            ...ordered
+              .filter((item) => !item.card)
+              .map(({ line }) => ({
+                lineNumber: line.lineNumber,
+                text: line.text,
+                reason: line.cardName
+                  ? `No card named "${line.cardName}" in the collection.`
+                  : `No card (${line.setName}) ${line.cardNumber} in the collection.`
+              }))
+          ].sort((a, b) => a.lineNumber - b.lineNumber),
+          skipped: parsed.lines.length - mainLines.length
+        };
+      })
+    );
+  }
+
+  private findCard(line: DecklistLine): Observable<Card | null> {
+    const direct =
+      line.setName && line.cardNumber !== undefined
+        ? this.cardService.getOne(line.cardNumber, line.setName).pipe(
+            map((card) => (card && this.namesMatch(card, line.cardName) ? card : null)),
+            catchError((error: unknown) =>
+              this.isNotFound(error) ? of(null) : throwError(() => error)
+            )
+          )
+        : of(null);
+
+    return direct.pipe(switchMap((card) => (card ? of(card) : this.searchByName(line))));
+  }
+
+  private searchByName(line: DecklistLine): Observable<Card | null> {
+    if (!line.cardName) {
+      return of(null);
+    }
+    return this.cardService.search(line.cardName).pipe(
+      map((cards) => {
+        const candidates = (cards ?? []).filter((card) => this.namesMatch(card, line.cardName));
+        const setName = line.setName?.toLowerCase();
+        return (
+          candidates.find((card) => card.setName.toLowerCase() === setName) ?? candidates[0] ?? null
+        );
+      })
+    );
+  }
+
+  private isNotFound(error: unknown): boolean {
+    return error instanceof HttpErrorResponse && error.status === 404;
+  }
+
+  /**
+   * Double-faced cards are often exported with only their front face name. A
+   * line with no name was exported by set and number, so any name matches.
+   */
+  private namesMatch(card: Card, name: string): boolean {
+    const expected = name.trim().toLowerCase();
+    if (!expected) {
+      return true;
+    }
+    const actual = card.cardName.trim().toLowerCase();
+    return actual === expected || actual.split(' // ')[0] === expected;
+  }
+
+  private buildEntries(resolved: ResolvedLine[]): Pick<DecklistImportResult, 'entries' | 'cards'> {
+    const entries = new Map<string, DeckCard>();
+    const cards = new Map<string, Card>();
+
+    resolved.forEach(({ line, card }) => {
+      if (!card) {
+        return;
+      }
+
+      const key = `${card.cardNumber}/${card.setName.toLowerCase()}`;
+      const existing = entries.get(key);
+      cards.set(key, card);
+      entries.set(key, {
+        cardNumber: card.cardNumber,
+        setName: card.setName,
+        quantity: (existing?.quantity ?? 0) + line.quantity,
+        commander: !!existing?.commander || line.section === 'commander'
+      });
+    });
+
+    return { entries: [...entries.values()], cards: [...cards.values()] };
+  }
+}
@@ -0,0 +1,99 @@
+import {
+  buildDeckMatchups,
+  buildHeadToHead,
+  getHeadToHeadCell,
+  listMatchupPairs,
+  matchIncludesPlayers
+} from './head-to-head';
+import { createSeatPlayerResolver, filterMatchesByFormat } from './api.adapter';
+import { Match } from '../shared/models/match.model';
+import { Player } from '../shared/models/player.model';
+
+describe('head-to-head', () => {
+  const counters = { wins: 0, losses: 0, ties: 0, casualWins: 0, casualLosses: 0 };
+  const players: Player[] = [
+    { playerId: 1, playerName: 'Ethan', ...counters },
+    { playerId: 2, playerName: 'Sam', ...counters }
+  ];
+  const matches: Match[] = [
+    {
+      matchId: 1,
+      seats: [
+        { seat: 1, playerId: 1, result: 'win' },
+        { seat: 2, playerName: 'sam', result: 'loss' },
+        { seat: 3, playerName: 'Kai', result: 'loss' }
+      ]
+    },
+    {
+      matchId: 2,
+      seats: [
+        { seat: 1, playerId: 2, result: 'win' },
+        { seat: 2, playerName: 'Ethan', result: 'loss' }
+      ]
+    },
+    {
+      matchId: 3,
+      seats: [
+        { seat: 1, playerName: 'Kai', result: 'tie' },
+        { seat: 2, playerId: 2, result: 'tie' }
+      ]
+    }
+  ];
+
+  it('counts shared games and wins from each side of the pairing', () => {
+    const table = buildHeadToHead(matches, players);
+
+    expect(table.players.map((player) => player.label)).toEqual(['Sam', 'Ethan', 'Kai']);
+    expect(getHeadToHeadCell(table, 'id:1', 'id:2')).toEqual({ games: 2, wins: 1 });
+    expect(getHeadToHeadCell(table, 'id:2', 'id:1')).toEqual({ games: 2, wins: 1 });
+    expect(getHeadToHeadCell(table, 'name:kai', 'id:2')).toEqual({ games: 2, wins: 0 });
+    expect(getHeadToHeadCell(table, 'id:1', 'id:1')).toEqual({ games: 0, wins: 0 });
+  });
+
+  it('finds the matches two players shared', () => {
+    const resolve = createSeatPlayerResolver(players);
+    const shared = matches.filter((match) =>
+      matchIncludesPlayers(match, ['ethan', 'Sam'], resolve)
+    );
+
+    expect(shared.map((match) => match.matchId)).toEqual([1, 2]);
+  });
+
+  it('pairs decks by the pods they shared, per format', () => {
+    const pods: Match[] = [
+      {
+        format: 'CEDH',
+        seats: [
+          { seat: 1, playerName: 'A', deckName: 'Kinnan', result: 'win' },
+          { seat: 2, playerName: 'B', deckName: 'Atraxa', result: 'loss' },
+          { seat: 3, playerName: 'C', deckName: 'Tymna', result: 'loss' }
+        ]
+      },
+      {
+        format: 'CASUAL',
+        seats: [
+          { seat: 1, playerName: 'A', deckName: 'kinnan ', result: 'loss' },
+          { seat: 2, playerName: 'B', deckName: 'Atraxa', result: 'win' },
+          { seat: 3, playerName: 'C', result: 'loss' }
+        ]
+      }
+    ];
+
+    const summarize = (matches: Match[]) =>
+      listMatchupPairs(buildDeckMatchups(matches)).map((pair) => [
+        `${pair.first.label} v ${pair.second.label}`,
+        pair.games,
+        pair.firstWins,
+        pair.secondWins
+      ]);
+
+    expect(summarize(pods)).toEqual([
+      ['Atraxa v Kinnan', 2, 1, 1],
+      ['Atraxa v Tymna', 1, 0, 0],
+      ['Kinnan v Tymna', 1, 1, 0]
+    ]);
+    expect(summarize(filterMatchesByFormat(pods, 'casual'))).toEqual([
+      ['Atraxa v kinnan', 1, 1, 0]
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+import { SeatPlayer, createSeatPlayerResolver, toMatchSeats } from './api.adapter';
+import { Match, MatchSeat } from '../shared/models/match.model';
+import { Player } from '../shared/models/player.model';
+
+/** Cell [A][B] counts the games A and B both sat in and how many of them A won. */
+
+export interface HeadToHeadCell {
+  games: number;
+  wins: number;
+}
+
+export interface HeadToHead {
+  players: SeatPlayer[];
+  cells: Map<string, HeadToHeadCell>;
+}
+
+export interface MatchupPair {
+  first: SeatPlayer;
+  second: SeatPlayer;
+  games: number;
+  firstWins: number;
+  secondWins: number;
+}
+
+const EMPTY_CELL: HeadToHeadCell = { games: 0, wins: 0 };
+
+export function buildHeadToHead(matches: Match[], players: Player[] = []): HeadToHead {
+  return buildMatchupTable(matches, createSeatPlayerResolver(players));
+}
+
+/** The same table keyed by the deck in each seat; seats without a deck are left out. */
+export function buildDeckMatchups(matches: Match[]): HeadToHead {
+  return buildMatchupTable(matches, (seat) => {
+    const deckName = seat.deckName?.trim();
+    return deckName ? { key: deckName.toLowerCase(), label: deckName } : null;
+  });
+}
+
+/** Lists every pairing that shared at least one game, most-played first. */
+export function listMatchupPairs(table: HeadToHead): MatchupPair[] {
+  const pairs: MatchupPair[] = [];
+
+  table.players.forEach((first, index) => {
+    table.players.slice(index + 1).forEach((second) => {
+      const cell = getHeadToHeadCell(table, first.key, second.key);
+      if (cell.games > 0) {
+        pairs.push({
+          first,
+          second,
+          games: cell.games,
+          firstWins: cell.wins,
+          secondWins: getHeadToHeadCell(table, second.key, first.key).wins
+        });
+      }
+    });
+  });
+
+  return pairs.sort((a, b) => b.games - a.games);
+}
+
+function buildMatchupTable(
+  matches: Match[],
+  resolvePlayer: (seat: MatchSeat) => SeatPlayer | null
+): HeadToHead {
+  const cells = new Map<string, HeadToHeadCell>();
+  const seen = new Map<string, SeatPlayer & { games: number }>();
+
+  matches.forEach((match) => {
+    const seats = new Map<string, { player: SeatPlayer; won: boolean }>();
+    toMatchSeats(match).forEach((seat) => {
+      const player = resolvePlayer(seat);
+      if (player && !seats.has(player.key)) {
+        seats.set(player.key, { player, won: seat.result === 'win' });
+      }
+    });
+
+    seats.forEach(({ player, won }) => {
+      const existing = seen.get(player.key);
+      seen.set(player.key, { ...(existing ?? player), games: (existing?.games ?? 0) + 1 });
+      seats.forEach((opponent) => {
+        if (opponent.player.key === player.key) {
+          return;
+        }
+        const key = cellKey(player.key, opponent.player.key);
+        const cell = cells.get(key) ?? EMPTY_CELL;
+        cells.set(key, { games: cell.games + 1, wins: cell.wins + (won ? 1 : 0) });
+      });
+    });
+  });
+
+  const ordered = [...seen.values()]
+    .sort((a, b) => b.games - a.games || a.label.localeCompare(b.label))
+    .map(({ key, label }) => ({ key, label }));
+
+  return { players: ordered, cells };
+}
+
+export function getHeadToHeadCell(
+  table: HeadToHead,
+  rowKey: string,
+  columnKey: string
+): HeadToHeadCell {
+  return table.cells.get(cellKey(rowKey, columnKey)) ?? EMPTY_CELL;
+}
+
+/** True when every named player sat in the match; names are compared case-insensitively. */
+export function matchIncludesPlayers(
+  match: Match,
+  playerNames: string[],
+  resolvePlayer: (seat: MatchSeat) => SeatPlayer | null
+): boolean {
+  const labels = new Set(
+    toMatchSeats(match)
+      .map((seat) => resolvePlayer(seat)?.label.trim().toLowerCase())
+      .filter((label): label is string => !!label)
+  );
+  return playerNames.every((name) => labels.has(name.trim().toLowerCase()));
+}
+
+function cellKey(rowKey: string, columnKey: string): string {
+  return `${rowKey}|${columnKey}`;
+}
@@ -0,0 +1,76 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, HttpErrorResponse, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { describeHttpError, httpErrorInterceptor } from './http-error.interceptor';
+
+describe('httpErrorInterceptor', () => {
+  let http: HttpClient;
+  let controller: HttpTestingController;
+
+  beforeEach(() => {
+    jasmine.clock().install();
+    TestBed.configureTestingModule({
+      providers: [
+        provideZonelessChangeDetection(),
+        provideHttpClient(withInterceptors([httpErrorInterceptor])),
+        provideHttpClientTesting()
+      ]
+    });
+    http = TestBed.inject(HttpClient);
+    controller = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    controller.verify();
+    jasmine.clock().uninstall();
+  });
+
+  it('retries a GET after a server error with growing delays', () => {
+    let result: unknown;
+    http.get('/api/player').subscribe((data) => (result = data));
+
+    controller.expectOne('/api/player').flush(null, { status: 503, statusText: 'Unavailable' });
+    jasmine.clock().tick(499);
+    controller.expectNone('/api/player');
+    jasmine.clock().tick(1);
+    controller.expectOne('/api/player').flush(null, { status: 0, statusText: 'Unknown Error' });
+    jasmine.clock().tick(1000);
+    controller.expectOne('/api/player').flush([]);
+
+    expect(result).toEqual([]);
+  });
+
+  it('gives up after two retries', () => {
+    let failure: HttpErrorResponse | undefined;
+    http.get('/api/deck').subscribe({ error: (error) => (failure = error) });
+
+    controller.expectOne('/api/deck').flush(null, { status: 500, statusText: 'Error' });
+    jasmine.clock().tick(500);
+    controller.expectOne('/api/deck').flush(null, { status: 500, statusText: 'Error' });
+    jasmine.clock().tick(1000);
+    controller.expectOne('/api/deck').flush(null, { status: 500, statusText: 'Error' });
+
+    expect(failure?.status).toBe(500);
+  });
+
+  it('does not retry client errors or writes', () => {
+    http.get('/api/match/9').subscribe({ error: () => undefined });
+    http.post('/api/match', {}).subscribe({ error: () => undefined });
+
+    controller.expectOne('/api/match/9').flush(null, { status: 404, statusText: 'Not Found' });
+    controller.expectOne('/api/match').flush(null, { status: 503, statusText: 'Unavailable' });
+    jasmine.clock().tick(2000);
+    controller.expectNone('/api/match/9');
+    controller.expectNone('/api/match');
+  });
+
+  it('describes common failures in plain words', () => {
+    const failure = (status: number) => new HttpErrorResponse({ status });
+
+    expect(describeHttpError(failure(0))).toContain('could not be reached');
+    expect(describeHttpError(failure(404))).toContain('not found');
+    expect(describeHttpError(failure(409))).toContain('changed by someone else');
+    expect(describeHttpError(failure(500))).toContain('internal error (500)');
+  });
+});
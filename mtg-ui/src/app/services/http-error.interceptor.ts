@@ -0,0 +1,62 @@
+import { HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
+import { retry, throwError, timer } from 'rxjs';
+
+const RETRY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+const MAX_RETRIES = 2;
+const BASE_DELAY_MS = 500;
+
+/**
+ * Retries idempotent requests that failed because the API was unreachable or
+ * had a server error, waiting 0.5s and then 1s. Writes are never retried here,
+ * and 4xx answers are passed straight through since repeating them cannot help.
+ */
+export const httpErrorInterceptor: HttpInterceptorFn = (req, next) => {
+  if (!RETRY_METHODS.includes(req.method)) {
+    return next(req);
+  }
+
+  return next(req).pipe(
+    retry({
+      count: MAX_RETRIES,
+      delay: (error: unknown, retryCount) =>
+        isRetryable(error) ? timer(BASE_DELAY_MS * 2 ** (retryCount - 1)) : throwError(() => error)
+    })
+  );
+};
+
+/**
+ * Turns a failed request into a sentence a player can act on.
+ */
+export function describeHttpError(error: unknown): string {
+  if (!(error instanceof HttpErrorResponse)) {
+    return error instanceof Error && error.message ? error.message : 'Something went wrong.';
+  }
+
+  switch (error.status) {
+    case 0:
+      return 'The API could not be reached. Check your connection and that the API is running.';
+    case 401:
+      return 'Your session has expired. Log in again.';
+    case 403:
+      return 'You do not have permission to do that.';
+    case 404:
+      return 'It was not found; it may have been deleted. Refresh and try again.';
+    case 409:
+    case 412:
+      return 'It was changed by someone else or already exists. Refresh and try again.';
+  }
+
+  if (error.status >= 500) {
+    return `The API had an internal error (${error.status}). Try again in a moment.`;
+  }
+
+  const detail = typeof error.error?.message === 'string' ? ` ${error.error.message}` : '';
+  return `The API rejected the request (${error.status}).${detail}`;
+}
+
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof HttpErrorResponse)) {
+    return false;
+  }
+  return error.status === 0 || (error.status >= 500 && error.status !== 501);
+}
@@ -1,26 +1,8 @@
 import { Injectable, inject } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
-import { Observable } from 'rxjs';
-
-export interface MatchRecord {
-  matchID?: number;
-  matchId?: number;
-  id?: number;
-  playerID?: number;
-  deckName?: string;
-  winnerName?: string;
-  format?: string;
-  playerWin?: boolean;
-  opponentOne?: string;
-  opponentOneDeck?: string;
-  opponentTwo?: string;
-  opponentTwoDeck?: string;
-  opponentThree?: string;
-  opponentThreeDeck?: string;
-  result?: string;
-  playedAt?: string;
-  seats?: Array<Record<string, unknown>>;
-}
+import { Observable, map } from 'rxjs';
+import { Match } from '../shared/models/match.model';
+import { toMatch, toMatchRecord } from './api.adapter';
 
 @Injectable({
   providedIn: 'root'
@@ -29,19 +11,35 @@ export class MatchService {
   private http = inject(HttpClient);
   private readonly baseUrl = '/api/match';
 
-  getAll(): Observable<MatchRecord[]> {
-    return this.http.get<MatchRecord[]>(this.baseUrl, {
+  getAll(): Observable<Match[]> {
+    return this.http.get<unknown[]>(this.baseUrl, {
       headers: { 'Accept': 'application/json' }
-    });
+    }).pipe(
+      map((data) => (data ?? []).map(toMatch))
+    );
   }
 
-  create(payload: MatchRecord): Observable<MatchRecord> {
-    return this.http.post<MatchRecord>(this.baseUrl, payload, {
+  create(match: Match): Observable<Match> {
+    return this.http.post<unknown>(this.baseUrl, toMatchRecord(match), {
       headers: {
         'Accept': 'application/json',
         'Content-Type': 'application/json'
       }
-    });
+    }).pipe(
+      map((data) => (data ? toMatch(data) : match))
+    );
+  }
+
+  update(matchId: number | string, match: Match): Observable<Match> {
+    const matchKey = encodeURIComponent(String(matchId));
+    return this.http.put<unknown>(`${this.baseUrl}/${matchKey}`, toMatchRecord(match), {
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json'
+      }
+    }).pipe(
+      map((data) => (data ? toMatch(data) : match))
+    );
   }
 
   delete(matchId: number | string): Observable<void> {
@@ -0,0 +1,54 @@
+import { Injectable, PLATFORM_ID, inject, signal } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { describeHttpError } from './http-error.interceptor';
+
+export type NotificationKind = 'error' | 'success' | 'info';
+
+export interface Notification {
+  id: number;
+  kind: NotificationKind;
+  message: string;
+}
+
+const DISMISS_AFTER_MS = 6000;
+
+/**
+ * Short-lived messages shown by the toast list in the app shell. Errors stay
+ * until dismissed; everything else fades out on its own.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class NotificationService {
+  private platformId = inject(PLATFORM_ID);
+  private nextId = 1;
+
+  readonly notifications = signal<Notification[]>([]);
+
+  error(context: string, error?: unknown): string {
+    const message = error === undefined ? context : `${context}: ${describeHttpError(error)}`;
+    this.push('error', message);
+    return message;
+  }
+
+  success(message: string): void {
+    this.push('success', message);
+  }
+
+  info(message: string): void {
+    this.push('info', message);
+  }
+
+  dismiss(id: number): void {
+    this.notifications.set(this.notifications().filter((item) => item.id !== id));
+  }
+
+  private push(kind: NotificationKind, message: string): void {
+    const notification: Notification = { id: this.nextId++, kind, message };
+    this.notifications.set([...this.notifications(), notification]);
+
+    if (kind !== 'error' && isPlatformBrowser(this.platformId)) {
+      setTimeout(() => this.dismiss(notification.id), DISMISS_AFTER_MS);
+    }
+  }
+}
@@ -0,0 +1,181 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { HttpErrorResponse } from '@angular/common/http';
+import { firstValueFrom, of, throwError } from 'rxjs';
+import { OfflineQueueService } from './offline-queue.service';
+import { PlayerService } from './player.service';
+import { DeckService } from './deck.service';
+import { MatchService } from './match.service';
+import { StatsLedgerService } from './stats-ledger.service';
+import { Match } from '../shared/models/match.model';
+
+describe('OfflineQueueService', () => {
+  let created: Match[];
+  let applied: Match[];
+  let deleted: number[];
+  let apiDown: boolean;
+  let createStatus: number | null;
+  let statsFail: boolean;
+  let deleteFails: boolean;
+  let queue: OfflineQueueService;
+
+  const game = (deckName: string): Match => ({
+    format: 'CEDH',
+    playedAt: '2026-01-01T20:00:00.000Z',
+    seats: [
+      { seat: 1, playerId: 1, playerName: 'Ethan', deckName, result: 'win' },
+      { seat: 2, playerId: 2, playerName: 'Sam', deckName: 'Kinnan', result: 'loss' }
+    ]
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    created = [];
+    applied = [];
+    deleted = [];
+    apiDown = false;
+    createStatus = null;
+    statsFail = false;
+    deleteFails = false;
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideZonelessChangeDetection(),
+        {
+          provide: PlayerService,
+          useValue: {
+            getAll: () => of([
+              { playerId: 1, playerName: 'Ethan', wins: 0, losses: 0, ties: 0, casualWins: 0, casualLosses: 0 },
+              { playerId: 2, playerName: 'Sam', wins: 0, losses: 0, ties: 0, casualWins: 0, casualLosses: 0 }
+            ])
+          }
+        },
+        {
+          provide: DeckService,
+          useValue: {
+            getAll: () => of(['Atraxa', 'Kinnan', 'Tymna'].map((deckName) => ({
+              deckName, wins: 0, losses: 0, ties: 0, casualWins: 0, casualLosses: 0
+            })))
+          }
+        },
+        {
+          provide: MatchService,
+          useValue: {
+            create: (match: Match) => {
+              if (apiDown || createStatus !== null) {
+                return throwError(() => new HttpErrorResponse({ status: createStatus ?? 0 }));
+              }
+              created.push(match);
+              return of({ ...match, matchId: created.length });
+            },
+            delete: (matchId: number) => {
+              if (deleteFails) {
+                return throwError(() => new HttpErrorResponse({ status: 500 }));
+              }
+              deleted.push(matchId);
+              return of(null);
+            }
+          }
+        },
+        {
+          provide: StatsLedgerService,
+          useValue: {
+            apply: (match: Match) => {
+              applied.push(match);
+              const failed = statsFail ? ['Player "Ethan"'] : [];
+              return of({ updated: [], failed, restored: [], restoreFailed: [] });
+            }
+          }
+        }
+      ]
+    });
+
+    queue = TestBed.inject(OfflineQueueService);
+  });
+
+  it('persists queued games to local storage', () => {
+    queue.enqueue(game('Atraxa'));
+
+    expect(queue.pendingCount()).toBe(1);
+    expect(JSON.parse(localStorage.getItem('pendingMatches')!).length).toBe(1);
+  });
+
+  it('replays queued games in the order they were logged', async () => {
+    queue.enqueue(game('Atraxa'));
+    queue.enqueue(game('Tymna'));
+
+    const report = await firstValueFrom(queue.sync());
+
+    expect(report).toEqual({ synced: 2, conflicts: [], remaining: 0 });
+    expect(created.map((match) => match.seats![0].deckName)).toEqual(['Atraxa', 'Tymna']);
+    expect(applied.length).toBe(2);
+    expect(localStorage.getItem('pendingMatches')).toBeNull();
+  });
+
+  it('keeps a game queued and reports a conflict when its deck no longer exists', async () => {
+    queue.enqueue(game('Yuriko'));
+    queue.enqueue(game('Atraxa'));
+
+    const report = await firstValueFrom(queue.sync());
+
+    expect(report.synced).toBe(1);
+    expect(report.conflicts.length).toBe(1);
+    expect(report.conflicts[0]).toContain('deck "Yuriko"');
+    expect(queue.conflicts().length).toBe(1);
+  });
+
+  it('stops and keeps everything queued while the API is unreachable', async () => {
+    apiDown = true;
+    queue.enqueue(game('Atraxa'));
+    queue.enqueue(game('Tymna'));
+
+    const report = await firstValueFrom(queue.sync());
+
+    expect(report.synced).toBe(0);
+    expect(report.remaining).toBe(2);
+    expect(applied).toEqual([]);
+  });
+
+  it('stops at a game whose stats fail and deletes the match it created', async () => {
+    statsFail = true;
+    queue.enqueue(game('Atraxa'));
+    queue.enqueue(game('Tymna'));
+
+    const report = await firstValueFrom(queue.sync());
+
+    expect(created.map((match) => match.seats![0].deckName)).toEqual(['Atraxa']);
+    expect(deleted).toEqual([1]);
+    expect(report.synced).toBe(0);
+    expect(report.remaining).toBe(2);
+    expect(queue.pending()[0].matchId).toBeUndefined();
+    expect(queue.pending()[0].conflict).toContain('Player "Ethan" could not be saved');
+  });
+
+  it('keeps the created match id and only retries the stats when the delete fails', async () => {
+    statsFail = true;
+    deleteFails = true;
+    queue.enqueue(game('Atraxa'));
+
+    await firstValueFrom(queue.sync());
+
+    expect(queue.pending()[0].matchId).toBe(1);
+
+    statsFail = false;
+    const report = await firstValueFrom(queue.sync());
+
+    expect(report).toEqual({ synced: 1, conflicts: [], remaining: 0 });
+    expect(created.length).toBe(1);
+    expect(applied.length).toBe(2);
+  });
+
+  it('keeps a game the API rejects queued with the reason', async () => {
+    createStatus = 400;
+    queue.enqueue(game('Atraxa'));
+
+    const report = await firstValueFrom(queue.sync());
+
+    expect(report.remaining).toBe(1);
+    expect(report.conflicts[0]).toContain('rejected the request (400)');
+    expect(queue.conflicts().length).toBe(1);
+  });
+});
@@ -0,0 +1,249 @@
+import { DestroyRef, Injectable, PLATFORM_ID, computed, inject, signal } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { HttpErrorResponse } from '@angular/common/http';
+import { catchError, finalize, forkJoin, map, Observable, of, switchMap } from 'rxjs';
+import { PlayerService } from './player.service';
+import { DeckService } from './deck.service';
+import { MatchService } from './match.service';
+import { StatsLedgerService, StatsUpdateReport } from './stats-ledger.service';
+import { describeHttpError } from './http-error.interceptor';
+import { toMatchSeats } from './api.adapter';
+import { Player } from '../shared/models/player.model';
+import { Deck } from '../shared/models/deck.model';
+import { Match } from '../shared/models/match.model';
+
+export interface QueuedMatch {
+  queueId: string;
+  queuedAt: string;
+  match: Match;
+  /** Set once the match has been created, so a retry only applies its stats. */
+  matchId?: number;
+  conflict?: string;
+}
+
+export interface SyncReport {
+  synced: number;
+  conflicts: string[];
+  remaining: number;
+}
+
+const STORAGE_KEY = 'pendingMatches';
+const UNREACHABLE_STATUSES = [0, 502, 503, 504];
+const RETRY_INTERVAL_MS = 60_000;
+
+/**
+ * Keeps games that could not reach the API in local storage and replays them
+ * in the order they were logged: each queued match is created and its stats
+ * applied before the next one starts. A game whose player or deck no longer
+ * exists is left in the queue with a conflict message instead of being sent,
+ * and a game the API rejects stays queued with the reason as its conflict.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OfflineQueueService {
+  private platformId = inject(PLATFORM_ID);
+  private playerService = inject(PlayerService);
+  private deckService = inject(DeckService);
+  private matchService = inject(MatchService);
+  private statsLedger = inject(StatsLedgerService);
+  private destroyRef = inject(DestroyRef);
+
+  readonly pending = signal<QueuedMatch[]>(this.readQueue());
+  readonly pendingCount = computed(() => this.pending().length);
+  readonly conflicts = computed(() => this.pending().filter((entry) => !!entry.conflict));
+  readonly isSyncing = signal(false);
+
+  constructor() {
+    if (isPlatformBrowser(this.platformId)) {
+      window.addEventListener('online', () => this.sync().subscribe());
+      const retryTimer = window.setInterval(() => this.sync().subscribe(), RETRY_INTERVAL_MS);
+      this.destroyRef.onDestroy(() => window.clearInterval(retryTimer));
+    }
+  }
+
+  isUnreachable(error: unknown): boolean {
+    return error instanceof HttpErrorResponse && UNREACHABLE_STATUSES.includes(error.status);
+  }
+
+  enqueue(match: Match): QueuedMatch {
+    const entry: QueuedMatch = {
+      queueId: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      queuedAt: new Date().toISOString(),
+      match
+    };
+    this.writeQueue([...this.pending(), entry]);
+    return entry;
+  }
+
+  discard(queueId: string): void {
+    this.writeQueue(this.pending().filter((entry) => entry.queueId !== queueId));
+  }
+
+  sync(): Observable<SyncReport> {
+    if (this.isSyncing() || this.pending().length === 0) {
+      return of({ synced: 0, conflicts: [], remaining: this.pending().length });
+    }
+
+    this.isSyncing.set(true);
+    const initial: SyncReport = { synced: 0, conflicts: [], remaining: this.pending().length };
+
+    return forkJoin([
+      this.playerService.getAll(),
+      this.deckService.getAll()
+    ]).pipe(
+      switchMap(([players, decks]) => this.replay(this.pending(), players, decks, initial)),
+      catchError(() => of(initial)),
+      finalize(() => this.isSyncing.set(false))
+    );
+  }
+
+  private replay(
+    entries: QueuedMatch[],
+    players: Player[],
+    decks: Deck[],
+    report: SyncReport
+  ): Observable<SyncReport> {
+    const [entry, ...rest] = entries;
+    if (!entry) {
+      return of({ ...report, remaining: this.pending().length });
+    }
+
+    const conflict = this.findConflict(entry.match, players, decks);
+    this.updateEntry(entry.queueId, { conflict: conflict ?? undefined });
+    if (conflict) {
+      const conflicts = [...report.conflicts, conflict];
+      return this.replay(rest, players, decks, { ...report, conflicts });
+    }
+
+    const created$ = entry.matchId !== undefined
+      ? of(entry.matchId)
+      : this.matchService.create(entry.match).pipe(
+          map((created) => {
+            this.updateEntry(entry.queueId, { matchId: created.matchId });
+            return created.matchId;
+          })
+        );
+
+    return created$.pipe(
+      switchMap((matchId) =>
+        this.statsLedger.apply(entry.match).pipe(
+          map((statsReport) => this.describeStatsFailure(statsReport)),
+          catchError((error: unknown) => of(describeHttpError(error))),
+          switchMap((statsFailure) => {
+            if (!statsFailure) {
+              this.discard(entry.queueId);
+              return this.replay(rest, players, decks, { ...report, synced: report.synced + 1 });
+            }
+
+            // Keep the game queued and stop, so later games are not applied ahead of it.
+            const reason = `its stats were not updated: ${statsFailure}`;
+            return this.removeCreatedMatch(entry.queueId, matchId).pipe(
+              map(() => this.stopWithConflict(entry, reason, report))
+            );
+          })
+        )
+      ),
+      catchError((error: unknown) =>
+        of(
+          this.isUnreachable(error)
+            ? { ...report, remaining: this.pending().length }
+            : this.stopWithConflict(entry, describeHttpError(error), report)
+        )
+      )
+    );
+  }
+
+  /**
+   * Deletes the match whose stats failed, so the next sync creates it again. If
+   * the delete fails too, the entry keeps its match id and only retries the stats.
+   */
+  private removeCreatedMatch(queueId: string, matchId: number | undefined): Observable<void> {
+    if (matchId === undefined) {
+      return of(undefined);
+    }
+
+    return this.matchService.delete(matchId).pipe(
+      map(() => this.updateEntry(queueId, { matchId: undefined })),
+      catchError(() => of(undefined))
+    );
+  }
+
+  private describeStatsFailure(statsReport: StatsUpdateReport): string | null {
+    if (statsReport.failed.length === 0) {
+      return null;
+    }
+    return `${statsReport.failed.join(', ')} could not be saved.`;
+  }
+
+  private stopWithConflict(entry: QueuedMatch, reason: string, report: SyncReport): SyncReport {
+    const playedAt = this.describePlayedAt(entry.match);
+    const conflict = `Game from ${playedAt} was not synced: ${reason}`;
+    this.updateEntry(entry.queueId, { conflict });
+    const conflicts = [...report.conflicts, conflict];
+    return { ...report, conflicts, remaining: this.pending().length };
+  }
+
+  private findConflict(match: Match, players: Player[], decks: Deck[]): string | null {
+    const missing: string[] = [];
+
+    toMatchSeats(match).forEach((seat) => {
+      const nameKey = seat.playerName?.trim().toLowerCase();
+      const playerExists = seat.playerId !== undefined
+        ? players.some((player) => player.playerId === seat.playerId)
+        : !nameKey || players.some((player) => player.playerName.trim().toLowerCase() === nameKey);
+      if (!playerExists) {
+        missing.push(`player "${seat.playerName ?? seat.playerId}"`);
+      }
+
+      const deckKey = seat.deckName?.trim().toLowerCase();
+      if (deckKey && !decks.some((deck) => deck.deckName.trim().toLowerCase() === deckKey)) {
+        missing.push(`deck "${seat.deckName}"`);
+      }
+    });
+
+    if (missing.length === 0) {
+      return null;
+    }
+
+    const playedAt = this.describePlayedAt(match);
+    const verb = missing.length === 1 ? 'no longer exists' : 'no longer exist';
+    return `Game from ${playedAt} was not synced: ${missing.join(', ')} ${verb}.`;
+  }
+
+  private describePlayedAt(match: Match): string {
+    return match.playedAt ? new Date(match.playedAt).toLocaleString() : 'unknown time';
+  }
+
+  private updateEntry(queueId: string, patch: Partial<QueuedMatch>): void {
+    this.writeQueue(
+      this.pending().map((entry) => (entry.queueId === queueId ? { ...entry, ...patch } : entry))
+    );
+  }
+
+  private readQueue(): QueuedMatch[] {
+    if (!isPlatformBrowser(this.platformId)) {
+      return [];
+    }
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+      return Array.isArray(stored) ? stored : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private writeQueue(entries: QueuedMatch[]): void {
+    this.pending.set(entries);
+    if (!isPlatformBrowser(this.platformId)) {
+      return;
+    }
+
+    if (entries.length === 0) {
+      localStorage.removeItem(STORAGE_KEY);
+    } else {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    }
+  }
+}
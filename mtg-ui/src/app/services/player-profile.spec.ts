@@ -0,0 +1,94 @@
+import { buildFavoriteDeckMap, buildPlayerProfile, getPlayerKey } from './player-profile';
+import { Match } from '../shared/models/match.model';
+import { Player } from '../shared/models/player.model';
+
+describe('player-profile', () => {
+  const ethan: Player = {
+    playerId: 1,
+    playerName: 'Ethan',
+    wins: 0,
+    losses: 0,
+    ties: 0,
+    casualWins: 0,
+    casualLosses: 0
+  };
+  const matches: Match[] = [
+    {
+      matchId: 1,
+      format: 'Casual',
+      playedAt: '2026-01-01T18:00:00Z',
+      seats: [
+        { seat: 1, playerId: 1, deckName: 'Atraxa', result: 'win' },
+        { seat: 2, playerName: 'Sam', deckName: 'Kinnan', result: 'loss' }
+      ]
+    },
+    {
+      matchId: 2,
+      format: 'cEDH',
+      playedAt: '2026-01-08T18:00:00Z',
+      seats: [
+        { seat: 1, playerName: 'ethan', deckName: 'Kinnan', result: 'loss' },
+        { seat: 2, playerName: 'Sam', deckName: 'Atraxa', result: 'win' }
+      ]
+    },
+    {
+      matchId: 3,
+      format: 'cEDH',
+      playedAt: '2026-01-15T18:00:00Z',
+      seats: [
+        { seat: 1, playerId: 1, deckName: 'atraxa ', result: 'loss' },
+        { seat: 2, playerName: 'Sam', deckName: 'Kinnan', result: 'win' }
+      ]
+    },
+    {
+      matchId: 4,
+      seats: [{ seat: 1, playerName: 'Sam', deckName: 'Kinnan', result: 'win' }]
+    }
+  ];
+
+  it('finds the player by id or by name in any case, newest game first', () => {
+    const profile = buildPlayerProfile(matches, ethan);
+
+    expect(profile.games.map((game) => game.match.matchId)).toEqual([3, 2, 1]);
+    expect(profile.overall).toEqual({ games: 3, wins: 1, losses: 2, ties: 0 });
+  });
+
+  it('splits the record by deck and by format', () => {
+    const profile = buildPlayerProfile(matches, ethan);
+
+    expect(profile.decks).toEqual([
+      { deckName: 'Atraxa', games: 2, wins: 1, losses: 1, ties: 0 },
+      { deckName: 'Kinnan', games: 1, wins: 0, losses: 1, ties: 0 }
+    ]);
+    expect(profile.formats.casual).toEqual({ games: 1, wins: 1, losses: 0, ties: 0 });
+    expect(profile.formats.cedh).toEqual({ games: 2, wins: 0, losses: 2, ties: 0 });
+  });
+
+  it('reports the current streak and the running win rate', () => {
+    const profile = buildPlayerProfile(matches, ethan);
+
+    expect(profile.streak).toEqual({ result: 'loss', length: 2 });
+    expect(profile.trend.map((point) => Math.round(point.winRate))).toEqual([100, 50, 33]);
+  });
+
+  it('shares its seat keys with the favourite deck map', () => {
+    const favorites = buildFavoriteDeckMap(matches, [ethan]);
+
+    expect(getPlayerKey(ethan)).toBe('id:1');
+    expect(favorites.get('id:1')).toBe('Atraxa');
+    expect(favorites.get('name:sam')).toBe('Kinnan');
+  });
+
+  it('counts a deck typed in different cases as one favourite', () => {
+    const favorites = buildFavoriteDeckMap(
+      [
+        { matchId: 1, seats: [{ seat: 1, playerId: 1, deckName: 'Kinnan', result: 'win' }] },
+        { matchId: 2, seats: [{ seat: 1, playerId: 1, deckName: 'atraxa', result: 'win' }] },
+        { matchId: 3, seats: [{ seat: 1, playerId: 1, deckName: 'ATRAXA ', result: 'loss' }] }
+      ],
+      [ethan]
+    );
+
+    expect(favorites.get('id:1')).toBe('atraxa');
+  });
+});
@@ -0,0 +1,213 @@
+import { createSeatPlayerResolver, isCasualFormat, toMatchSeats } from './api.adapter';
+import { Match, MatchResult, MatchSeat } from '../shared/models/match.model';
+import { Player } from '../shared/models/player.model';
+
+/**
+ * Per-player views of match history. Seats are matched to players with
+ * `createSeatPlayerResolver`, so a profile counts the same games as the
+ * leaderboard and the head-to-head table, whatever case a name was typed in.
+ */
+
+export interface PlayerRecord {
+  games: number;
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+export interface PlayerGame {
+  match: Match;
+  seat: MatchSeat;
+  casual: boolean;
+}
+
+export interface PlayerDeckRecord extends PlayerRecord {
+  deckName: string;
+}
+
+export interface PlayerStreak {
+  result: MatchResult;
+  length: number;
+}
+
+export interface WinRatePoint {
+  playedAt?: string;
+  games: number;
+  winRate: number;
+}
+
+interface DeckCount {
+  deckName: string;
+  count: number;
+}
+
+export interface PlayerProfile {
+  games: PlayerGame[];
+  overall: PlayerRecord;
+  decks: PlayerDeckRecord[];
+  formats: { casual: PlayerRecord; cedh: PlayerRecord };
+  streak: PlayerStreak | null;
+  trend: WinRatePoint[];
+}
+
+/** The key `createSeatPlayerResolver` gives the player's own seats. */
+export function getPlayerKey(player: Player, players: Player[] = [player]): string | null {
+  const seat: MatchSeat = {
+    seat: 0,
+    playerId: player.playerId,
+    playerName: player.playerName,
+    result: null
+  };
+  return createSeatPlayerResolver(players)(seat)?.key ?? null;
+}
+
+/**
+ * Most-played deck per player key. Deck names are compared trimmed and in any
+ * case, like the profile's deck records, and keep their first recorded spelling.
+ */
+export function buildFavoriteDeckMap(matches: Match[], players: Player[]): Map<string, string> {
+  const resolvePlayer = createSeatPlayerResolver(players);
+  const counts = new Map<string, Map<string, DeckCount>>();
+
+  const bump = (playerKey: string, rawName: string | undefined) => {
+    const deckName = rawName?.trim();
+    if (!deckName) {
+      return;
+    }
+    const deckKey = deckName.toLowerCase();
+    const deckMap = counts.get(playerKey) ?? new Map<string, DeckCount>();
+    const entry = deckMap.get(deckKey) ?? { deckName, count: 0 };
+    entry.count += 1;
+    deckMap.set(deckKey, entry);
+    counts.set(playerKey, deckMap);
+  };
+
+  [...matches].sort(compareOldestFirst).forEach((match) => {
+    toMatchSeats(match).forEach((seat) => {
+      const player = resolvePlayer(seat);
+      if (player) {
+        bump(player.key, seat.deckName);
+      }
+    });
+  });
+
+  const favorites = new Map<string, string>();
+  counts.forEach((deckMap, playerKey) => {
+    // A stable sort, so a tie goes to the deck that was played first.
+    const [best] = [...deckMap.values()].sort((a, b) => b.count - a.count);
+    if (best) {
+      favorites.set(playerKey, best.deckName);
+    }
+  });
+
+  return favorites;
+}
+
+/** Every game the player sat in, newest first. */
+export function findPlayerGames(
+  matches: Match[],
+  player: Player,
+  players: Player[] = [player]
+): PlayerGame[] {
+  const resolvePlayer = createSeatPlayerResolver(players);
+  const playerKey = getPlayerKey(player, players);
+  if (!playerKey) {
+    return [];
+  }
+
+  const games: PlayerGame[] = [];
+  matches.forEach((match) => {
+    const seat = toMatchSeats(match).find((item) => resolvePlayer(item)?.key === playerKey);
+    if (seat) {
+      games.push({ match, seat, casual: isCasualFormat(seat.format ?? match.format) });
+    }
+  });
+
+  return games.sort((a, b) => compareOldestFirst(b.match, a.match));
+}
+
+export function buildPlayerProfile(
+  matches: Match[],
+  player: Player,
+  players: Player[] = [player]
+): PlayerProfile {
+  const games = findPlayerGames(matches, player, players);
+  const decks = new Map<string, PlayerDeckRecord>();
+  const casual = emptyRecord();
+  const cedh = emptyRecord();
+  const overall = emptyRecord();
+
+  // Oldest first, so each deck keeps the spelling it was first recorded under.
+  [...games].reverse().forEach((game) => {
+    addResult(overall, game.seat.result);
+    addResult(game.casual ? casual : cedh, game.seat.result);
+
+    const deckName = game.seat.deckName?.trim();
+    if (deckName) {
+      const key = deckName.toLowerCase();
+      const record = decks.get(key) ?? { deckName, ...emptyRecord() };
+      addResult(record, game.seat.result);
+      decks.set(key, record);
+    }
+  });
+
+  return {
+    games,
+    overall,
+    decks: [...decks.values()].sort(
+      (a, b) => b.games - a.games || a.deckName.localeCompare(b.deckName)
+    ),
+    formats: { casual, cedh },
+    streak: getStreak(games),
+    trend: buildTrend(games)
+  };
+}
+
+/** Wins over decided games, as the Players table reports it; ties do not count against. */
+export function getWinRate(record: Pick<PlayerRecord, 'wins' | 'losses'>): number {
+  const decided = record.wins + record.losses;
+  return decided ? (record.wins / decided) * 100 : 0;
+}
+
+function getStreak(games: PlayerGame[]): PlayerStreak | null {
+  const latest = games[0]?.seat.result;
+  if (!latest) {
+    return null;
+  }
+
+  const length = games.findIndex((game) => game.seat.result !== latest);
+  return { result: latest, length: length === -1 ? games.length : length };
+}
+
+/** Running win rate after each game, oldest first. */
+function buildTrend(games: PlayerGame[]): WinRatePoint[] {
+  const running = emptyRecord();
+  return [...games].reverse().map((game) => {
+    addResult(running, game.seat.result);
+    return { playedAt: game.match.playedAt, games: running.games, winRate: getWinRate(running) };
+  });
+}
+
+function addResult(record: PlayerRecord, result: MatchResult | null): void {
+  record.games += 1;
+  if (result === 'win') {
+    record.wins += 1;
+  } else if (result === 'loss') {
+    record.losses += 1;
+  } else if (result === 'tie') {
+    record.ties += 1;
+  }
+}
+
+function emptyRecord(): PlayerRecord {
+  return { games: 0, wins: 0, losses: 0, ties: 0 };
+}
+
+function compareOldestFirst(a: Match, b: Match): number {
+  return getPlayedTime(a) - getPlayedTime(b) || (a.matchId ?? 0) - (b.matchId ?? 0);
+}
+
+function getPlayedTime(match: Match): number {
+  const parsed = match.playedAt ? new Date(match.playedAt).getTime() : 0;
+  return Number.isNaN(parsed) ? 0 : parsed;
+}
@@ -1,8 +1,8 @@
 import { Injectable, inject } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
-import { Observable } from 'rxjs';
-
-export type Player = Record<string, unknown>;
+import { Observable, map } from 'rxjs';
+import { Player } from '../shared/models/player.model';
+import { toPlayer, toPlayerPayload } from './api.adapter';
 
 @Injectable({
   providedIn: 'root'
@@ -12,27 +12,46 @@ export class PlayerService {
   private readonly baseUrl = '/api';
 
   getAll(): Observable<Player[]> {
-    return this.http.get<Player[]>(`${this.baseUrl}/player`, {
+    return this.http.get<unknown[]>(`${this.baseUrl}/player`, {
       headers: { 'Accept': 'application/json' }
-    });
+    }).pipe(
+      map((data) => (data ?? []).map(toPlayer))
+    );
+  }
+
+  getById(playerId: number): Observable<Player> {
+    return this.http.get<unknown>(`${this.baseUrl}/player/${playerId}`, {
+      headers: { 'Accept': 'application/json' },
+      observe: 'response'
+    }).pipe(
+      map((response) => {
+        const player = toPlayer(response.body);
+        return { ...player, version: response.headers.get('ETag') ?? player.version };
+      })
+    );
   }
 
-  create(payload: Player): Observable<Player> {
-    return this.http.post<Player>(`${this.baseUrl}/player`, payload, {
+  create(player: Player): Observable<Player> {
+    return this.http.post<unknown>(`${this.baseUrl}/player`, toPlayerPayload(player), {
       headers: {
         'Accept': 'application/json',
         'Content-Type': 'application/json'
       }
-    });
+    }).pipe(
+      map(toPlayer)
+    );
   }
 
-  update(playerId: number, payload: Player): Observable<Player> {
-    return this.http.put<Player>(`${this.baseUrl}/player/${playerId}`, payload, {
+  update(playerId: number, player: Player): Observable<Player> {
+    return this.http.put<unknown>(`${this.baseUrl}/player/${playerId}`, toPlayerPayload({ ...player, playerId }), {
       headers: {
         'Accept': 'application/json',
-        'Content-Type': 'application/json'
+        'Content-Type': 'application/json',
+        ...(player.version ? { 'If-Match': player.version } : {})
       }
-    });
+    }).pipe(
+      map((data) => (data ? toPlayer(data) : { ...player, playerId }))
+    );
   }
 
   delete(playerId: number | string): Observable<void> {
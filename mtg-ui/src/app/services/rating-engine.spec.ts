@@ -0,0 +1,109 @@
+import { DEFAULT_DEVIATION, DEFAULT_RATING, computeRatings } from './rating-engine';
+import { Match, MatchResult } from '../shared/models/match.model';
+
+describe('rating-engine', () => {
+  const pod = (matchId: number, playedAt: string, winner: string, ...others: string[]): Match => ({
+    matchId,
+    playedAt,
+    format: 'CEDH',
+    seats: [winner, ...others].map((name, index) => ({
+      seat: index + 1,
+      playerName: name,
+      deckName: `${name} deck`,
+      result: (index === 0 ? 'win' : 'loss') as MatchResult
+    }))
+  });
+
+  it('moves the winner up, the losers down equally and shrinks uncertainty', () => {
+    const { players, games } = computeRatings([pod(1, '2026-01-01', 'A', 'B', 'C', 'D')]);
+    const byLabel = new Map(players.map((rating) => [rating.label, rating]));
+
+    expect(byLabel.get('A')!.rating).toBeGreaterThan(DEFAULT_RATING);
+    expect(byLabel.get('B')!.rating).toBeLessThan(DEFAULT_RATING);
+    expect(byLabel.get('B')!.rating).toBeCloseTo(byLabel.get('D')!.rating, 6);
+    expect(byLabel.get('A')!.deviation).toBeLessThan(DEFAULT_DEVIATION);
+    expect(games[0].players.map((seat) => Math.sign(seat.change))).toEqual([1, -1, -1, -1]);
+    expect(games[0].decks.length).toBe(4);
+  });
+
+  it('ranks a long winning record above a single lucky win', () => {
+    const matches = [
+      pod(1, '2026-01-05', 'Lucky', 'X'),
+      ...Array.from({ length: 8 }, (_value, index) => {
+        const [winner, loser] = index < 6 ? ['Steady', 'Y'] : ['Y', 'Steady'];
+        return pod(index + 2, `2026-01-0${(index % 4) + 1}`, winner, loser);
+      })
+    ];
+    const { players } = computeRatings(matches);
+
+    expect(players[0].label).toBe('Steady');
+    expect(players.find((rating) => rating.label === 'Lucky')!.games).toBe(1);
+  });
+
+  it('replays games in the order they were played, whatever the input order', () => {
+    const first = pod(1, '2026-02-01T20:00:00Z', 'A', 'B', 'C');
+    const second = pod(2, '2026-02-02T20:00:00Z', 'B', 'A', 'C');
+
+    const forwards = computeRatings([first, second]);
+    const backwards = computeRatings([second, first]);
+
+    expect(backwards.players).toEqual(forwards.players);
+    expect(backwards.games.map((game) => game.matchId)).toEqual([1, 2]);
+  });
+
+  it('resolves seats recorded by name to the player id', () => {
+    const byId: Match = {
+      matchId: 1,
+      playedAt: '2026-03-01',
+      seats: [
+        { seat: 1, playerId: 7, result: 'win' },
+        { seat: 2, playerName: 'Sam', result: 'loss' }
+      ]
+    };
+    const byName: Match = { ...byId, matchId: 2, seats: [
+      { seat: 1, playerName: 'ethan', result: 'tie' },
+      { seat: 2, playerName: 'Sam', result: 'tie' }
+    ] };
+
+    const ethan = {
+      playerId: 7,
+      playerName: 'Ethan',
+      wins: 0,
+      losses: 0,
+      ties: 0,
+      casualWins: 0,
+      casualLosses: 0
+    };
+    const { players } = computeRatings([byId, byName], [ethan]);
+
+    expect(players.map((rating) => [rating.key, rating.label, rating.games])).toEqual([
+      ['id:7', 'Ethan', 2],
+      ['name:sam', 'Sam', 2]
+    ]);
+  });
+
+  it('rates both copies of a deck in a mirror match as one update', () => {
+    const mirror: Match = {
+      matchId: 1,
+      playedAt: '2026-03-01',
+      format: 'CEDH',
+      seats: [
+        { seat: 1, playerName: 'A', deckName: 'Atraxa', result: 'win' },
+        { seat: 2, playerName: 'B', deckName: 'Atraxa', result: 'loss' },
+        { seat: 3, playerName: 'C', deckName: 'Kinnan', result: 'loss' }
+      ]
+    };
+    const { decks, games } = computeRatings([mirror]);
+    const atraxa = decks.find((rating) => rating.label === 'Atraxa')!;
+
+    expect(atraxa.games).toBe(2);
+    expect(atraxa.wins).toBe(1);
+    expect(atraxa.rating).toBeGreaterThan(DEFAULT_RATING);
+    expect(decks.find((rating) => rating.label === 'Kinnan')!.rating).toBeLessThan(DEFAULT_RATING);
+    expect(games[0].decks.map((seat) => seat.after)).toEqual([
+      atraxa.rating,
+      atraxa.rating,
+      jasmine.any(Number)
+    ]);
+  });
+});
@@ -0,0 +1,188 @@
+import { createSeatPlayerResolver, toMatchSeats } from './api.adapter';
+import { Match, MatchResult } from '../shared/models/match.model';
+import { Player } from '../shared/models/player.model';
+
+/** Glicko-style ratings replayed from match history; a pod is scored pairwise by placement. */
+
+export interface Rating {
+  key: string;
+  label: string;
+  rating: number;
+  deviation: number;
+  games: number;
+  wins: number;
+  lastChange: number;
+}
+
+export interface RatedSeat {
+  key: string;
+  label: string;
+  result: MatchResult | null;
+  before: number;
+  after: number;
+  change: number;
+}
+
+export interface RatedGame {
+  matchId?: number;
+  playedAt?: string;
+  players: RatedSeat[];
+  decks: RatedSeat[];
+}
+
+export interface RatingResults {
+  players: Rating[];
+  decks: Rating[];
+  games: RatedGame[];
+}
+
+export const DEFAULT_RATING = 1500;
+export const DEFAULT_DEVIATION = 350;
+export const MIN_DEVIATION = 60;
+
+const Q = Math.log(10) / 400;
+
+interface Competitor {
+  key: string;
+  label: string;
+  placement: number;
+  result: MatchResult | null;
+}
+
+export function computeRatings(matches: Match[], players: Player[] = []): RatingResults {
+  const playerRatings = new Map<string, Rating>();
+  const deckRatings = new Map<string, Rating>();
+  const resolvePlayer = createSeatPlayerResolver(players);
+
+  const games = sortChronologically(matches).map((match): RatedGame => {
+    const seats = toMatchSeats(match).filter((seat) => seat.placement !== undefined);
+    const playerSeats = seats.flatMap((seat): Competitor[] => {
+      const player = resolvePlayer(seat);
+      return player
+        ? [{ ...player, placement: seat.placement ?? 0, result: seat.result }]
+        : [];
+    });
+    const deckSeats = seats
+      .filter((seat) => !!seat.deckName?.trim())
+      .map((seat): Competitor => ({
+        key: seat.deckName!.trim().toLowerCase(),
+        label: seat.deckName!.trim(),
+        placement: seat.placement ?? 0,
+        result: seat.result
+      }));
+
+    return {
+      matchId: match.matchId,
+      playedAt: match.playedAt,
+      players: ratePod(playerRatings, playerSeats),
+      decks: ratePod(deckRatings, deckSeats)
+    };
+  });
+
+  return {
+    players: rankRatings(playerRatings),
+    decks: rankRatings(deckRatings),
+    games
+  };
+}
+
+/** `rating - 2 * deviation`, so a lucky 1-0 record does not outrank a long solid one. */
+export function conservativeRating(rating: Pick<Rating, 'rating' | 'deviation'>): number {
+  return rating.rating - 2 * rating.deviation;
+}
+
+/** Seats that share a key, like two copies of a deck, get one combined update. */
+function ratePod(ratings: Map<string, Rating>, seats: Competitor[]): RatedSeat[] {
+  if (new Set(seats.map((seat) => seat.key)).size < 2) {
+    return [];
+  }
+
+  const before = new Map(
+    seats.map((seat) => [seat.key, { ...(ratings.get(seat.key) ?? newRating(seat)) }])
+  );
+  const totals = new Map<string, { impact: number; varianceInverse: number }>();
+
+  seats.forEach((seat) => {
+    const current = before.get(seat.key)!;
+    const total = totals.get(seat.key) ?? { impact: 0, varianceInverse: 0 };
+
+    seats
+      .filter((other) => other.key !== seat.key)
+      .forEach((other) => {
+        const opponent = before.get(other.key)!;
+        const g = weight(opponent.deviation);
+        const expected = 1 / (1 + Math.pow(10, (-g * (current.rating - opponent.rating)) / 400));
+        total.impact += g * (scoreAgainst(seat, other) - expected);
+        total.varianceInverse += Q * Q * g * g * expected * (1 - expected);
+      });
+
+    totals.set(seat.key, total);
+  });
+
+  totals.forEach((total, key) => {
+    const current = before.get(key)!;
+    const own = seats.filter((seat) => seat.key === key);
+    const precision = 1 / (current.deviation * current.deviation) + total.varianceInverse;
+    const rating = current.rating + (Q / precision) * total.impact;
+
+    ratings.set(key, {
+      ...current,
+      label: own[0].label,
+      rating,
+      deviation: Math.max(MIN_DEVIATION, Math.sqrt(1 / precision)),
+      games: current.games + own.length,
+      wins: current.wins + own.filter((seat) => seat.result === 'win').length,
+      lastChange: rating - current.rating
+    });
+  });
+
+  return seats.map((seat) => {
+    const previous = before.get(seat.key)!.rating;
+    const rating = ratings.get(seat.key)!.rating;
+    return {
+      key: seat.key,
+      label: seat.label,
+      result: seat.result,
+      before: previous,
+      after: rating,
+      change: rating - previous
+    };
+  });
+}
+
+function scoreAgainst(seat: Competitor, other: Competitor): number {
+  if (seat.placement === other.placement) {
+    return 0.5;
+  }
+  return seat.placement < other.placement ? 1 : 0;
+}
+
+function weight(deviation: number): number {
+  return 1 / Math.sqrt(1 + (3 * Q * Q * deviation * deviation) / (Math.PI * Math.PI));
+}
+
+function newRating(seat: Competitor): Rating {
+  return {
+    key: seat.key,
+    label: seat.label,
+    rating: DEFAULT_RATING,
+    deviation: DEFAULT_DEVIATION,
+    games: 0,
+    wins: 0,
+    lastChange: 0
+  };
+}
+
+function rankRatings(ratings: Map<string, Rating>): Rating[] {
+  return [...ratings.values()].sort(
+    (a, b) => conservativeRating(b) - conservativeRating(a) || b.rating - a.rating
+  );
+}
+
+function sortChronologically(matches: Match[]): Match[] {
+  const time = (match: Match) => {
+    const value = match.playedAt ? new Date(match.playedAt).getTime() : NaN;
+    return Number.isNaN(value) ? 0 : value;
+  };
+  return [...matches].sort((a, b) => time(a) - time(b) || (a.matchId ?? 0) - (b.matchId ?? 0));
+}
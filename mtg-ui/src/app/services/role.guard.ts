@@ -0,0 +1,25 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { AuthService } from './auth.service';
+import { UserRole } from '../shared/models/auth.model';
+
+/**
+ * Reads the required role from the route's `data.role`. Use after `authGuard`,
+ * so a signed-out user is sent to log in rather than turned away here.
+ */
+export const roleGuard: CanActivateFn = (route) => {
+  const platformId = inject(PLATFORM_ID);
+
+  if (!isPlatformBrowser(platformId)) {
+    return true;
+  }
+
+  const role = route.data['role'] as UserRole | undefined;
+  if (!role || inject(AuthService).hasRole(role)) {
+    return true;
+  }
+
+  return inject(Router).createUrlTree(['/']);
+};
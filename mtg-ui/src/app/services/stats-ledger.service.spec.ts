@@ -0,0 +1,234 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom, of, throwError } from 'rxjs';
+import { StatsLedgerService } from './stats-ledger.service';
+import { PlayerService } from './player.service';
+import { DeckService } from './deck.service';
+import { Player } from '../shared/models/player.model';
+import { Deck } from '../shared/models/deck.model';
+import { Match } from '../shared/models/match.model';
+
+describe('StatsLedgerService', () => {
+  let players: Player[];
+  let decks: Deck[];
+  let ledger: StatsLedgerService;
+  let failingDeck: string | null;
+
+  const counters = { wins: 2, losses: 1, ties: 0, casualWins: 1, casualLosses: 0 };
+
+  beforeEach(() => {
+    failingDeck = null;
+    players = [
+      { playerId: 1, playerName: 'Ethan', ...counters },
+      { playerId: 2, playerName: 'Sam', ...counters }
+    ];
+    decks = [
+      { deckName: 'Atraxa', ...counters },
+      { deckName: 'Kinnan', ...counters }
+    ];
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideZonelessChangeDetection(),
+        {
+          provide: PlayerService,
+          useValue: {
+            getAll: () => of(players.map((player) => ({ ...player }))),
+            getById: (playerId: number) => of({ ...players.find((player) => player.playerId === playerId)! }),
+            update: (playerId: number, player: Player) => {
+              players = players.map((item) => (item.playerId === playerId ? player : item));
+              return of(player);
+            }
+          }
+        },
+        {
+          provide: DeckService,
+          useValue: {
+            getAll: () => of(decks.map((deck) => ({ ...deck }))),
+            getById: (deckName: string) => of({ ...decks.find((deck) => deck.deckName === deckName)! }),
+            update: (deckName: string, deck: Deck) => {
+              if (deckName === failingDeck) {
+                return throwError(() => new Error('boom'));
+              }
+              decks = decks.map((item) => (item.deckName === deckName ? deck : item));
+              return of(deck);
+            }
+          }
+        }
+      ]
+    });
+
+    ledger = TestBed.inject(StatsLedgerService);
+  });
+
+  it('credits wins and losses to players and decks alike', async () => {
+    const match: Match = {
+      format: 'CASUAL',
+      seats: [
+        { seat: 1, playerId: 1, playerName: 'Ethan', deckName: 'Atraxa', result: 'win' },
+        { seat: 2, playerId: 2, playerName: 'Sam', deckName: 'Kinnan', result: 'loss' }
+      ]
+    };
+
+    await firstValueFrom(ledger.apply(match));
+
+    expect(players[0].wins).toBe(3);
+    expect(players[0].casualWins).toBe(2);
+    expect(decks[0].wins).toBe(3);
+    expect(decks[1].losses).toBe(2);
+    expect(decks[1].casualLosses).toBe(1);
+  });
+
+  it('nets to zero when a match is applied and then reverted', async () => {
+    const before = JSON.stringify({ players, decks });
+    const match: Match = {
+      winnerName: 'Ethan',
+      playerId: 1,
+      deckName: 'Atraxa',
+      format: 'CEDH',
+      playerWin: true,
+      result: 'WIN',
+      opponentOne: 'Sam',
+      opponentOneDeck: 'Kinnan'
+    };
+
+    await firstValueFrom(ledger.apply(match));
+    await firstValueFrom(ledger.revert(match));
+
+    expect(JSON.stringify({ players, decks })).toBe(before);
+  });
+
+  it('applies only the difference when a match is edited', async () => {
+    const previous: Match = {
+      format: 'CEDH',
+      seats: [
+        { seat: 1, playerId: 1, deckName: 'Atraxa', result: 'win' },
+        { seat: 2, playerId: 2, deckName: 'Kinnan', result: 'loss' }
+      ]
+    };
+    const next: Match = {
+      format: 'CEDH',
+      seats: [
+        { seat: 1, playerId: 1, deckName: 'Atraxa', result: 'loss' },
+        { seat: 2, playerId: 2, deckName: 'Kinnan', result: 'win' }
+      ]
+    };
+
+    const report = await firstValueFrom(ledger.replace(previous, next));
+
+    expect(players[0]).toEqual(jasmine.objectContaining({ wins: 1, losses: 2 }));
+    expect(players[1]).toEqual(jasmine.objectContaining({ wins: 3, losses: 0 }));
+    expect(decks[0]).toEqual(jasmine.objectContaining({ wins: 1, losses: 2 }));
+    expect(report.updated.length).toBe(4);
+  });
+
+  it('skips targets whose counters do not change in an edit', async () => {
+    const previous: Match = {
+      format: 'CEDH',
+      seats: [
+        { seat: 1, playerId: 1, deckName: 'Atraxa', result: 'win' },
+        { seat: 2, playerId: 2, deckName: 'Kinnan', result: 'loss' }
+      ]
+    };
+    const next: Match = {
+      ...previous,
+      seats: [
+        { seat: 1, playerId: 1, deckName: 'Atraxa', result: 'win' },
+        { seat: 2, playerName: 'Sam', deckName: 'Kinnan', result: 'loss' }
+      ]
+    };
+
+    const report = await firstValueFrom(ledger.replace(previous, next));
+
+    expect(report.updated).toEqual([]);
+  });
+
+  it('rebuilds counters from match history alone', () => {
+    const matches: Match[] = [
+      { format: 'CASUAL', seats: [
+        { seat: 1, playerId: 1, deckName: 'Atraxa', result: 'win' },
+        { seat: 2, playerName: 'sam', deckName: 'Kinnan', result: 'loss' }
+      ] },
+      { format: 'CEDH', seats: [
+        { seat: 1, playerId: 1, deckName: 'Atraxa', result: 'tie' },
+        { seat: 2, playerId: 2, deckName: 'Kinnan', result: 'tie' }
+      ] }
+    ];
+
+    const rebuilt = ledger.rebuild(matches, players, decks);
+
+    expect(rebuilt.players[0]).toEqual(jasmine.objectContaining({ wins: 1, losses: 0, ties: 1, casualWins: 1 }));
+    expect(rebuilt.players[1]).toEqual(jasmine.objectContaining({ wins: 0, losses: 1, ties: 1, casualLosses: 1 }));
+    expect(rebuilt.decks[1]).toEqual(jasmine.objectContaining({ losses: 1, ties: 1 }));
+  });
+
+  it('rebuilds casual and cEDH records separately', () => {
+    const matches: Match[] = [
+      { format: 'CASUAL', seats: [
+        { seat: 1, playerId: 1, deckName: 'Atraxa', result: 'win' },
+        { seat: 2, playerId: 2, deckName: 'Kinnan', result: 'loss' }
+      ] },
+      { format: 'CEDH', seats: [
+        { seat: 1, playerId: 1, deckName: 'Atraxa', result: 'loss' },
+        { seat: 2, playerId: 2, deckName: 'Kinnan', result: 'win', format: 'CASUAL' }
+      ] }
+    ];
+
+    const casual = ledger.rebuildForFormat(matches, players, decks, 'casual');
+    const cedh = ledger.rebuildForFormat(matches, players, decks, 'cedh');
+    const all = ledger.rebuildForFormat(matches, players, decks, 'all');
+
+    expect(casual.players.map((player) => [player.wins, player.losses])).toEqual([[1, 0], [1, 1]]);
+    expect(cedh.players.map((player) => [player.wins, player.losses])).toEqual([[0, 1], [0, 0]]);
+    expect(all.decks.map((deck) => [deck.wins, deck.losses])).toEqual([[1, 1], [1, 1]]);
+  });
+
+  it('keeps stored standings for all formats and drops rows with no games in one format', () => {
+    const matches: Match[] = [
+      { format: 'CEDH', seats: [
+        { seat: 1, playerId: 1, deckName: 'Atraxa', result: 'win' }
+      ] }
+    ];
+
+    expect(ledger.standingsForFormat(matches, players, decks, 'all').players).toBe(players);
+    expect(ledger.standingsForFormat(null, players, decks, 'cedh').players).toBe(players);
+
+    const cedh = ledger.standingsForFormat(matches, players, decks, 'cedh');
+    expect(cedh.players.map((player) => player.playerName)).toEqual(['Ethan']);
+    expect(cedh.decks.map((deck) => deck.deckName)).toEqual(['Atraxa']);
+  });
+
+  it('restores successful updates when one of them fails', async () => {
+    const before = JSON.stringify({ players, decks });
+    failingDeck = 'Kinnan';
+
+    const report = await firstValueFrom(ledger.apply({
+      format: 'CEDH',
+      seats: [
+        { seat: 1, playerId: 1, deckName: 'Atraxa', result: 'win' },
+        { seat: 2, playerId: 2, deckName: 'Kinnan', result: 'loss' }
+      ]
+    }));
+
+    expect(report.failed).toEqual(['Deck "Kinnan"']);
+    expect(report.restored).toEqual(['Player "Ethan"', 'Player "Sam"', 'Deck "Atraxa"']);
+    expect(report.restoreFailed).toEqual([]);
+    expect(JSON.stringify({ players, decks })).toBe(before);
+  });
+
+  it('puts corrected rows back when another correction fails', async () => {
+    const before = JSON.stringify({ players, decks });
+    const zero = { wins: 0, losses: 0, ties: 0, casualWins: 0, casualLosses: 0 };
+    failingDeck = 'Kinnan';
+
+    const report = await firstValueFrom(ledger.overwrite([
+      { kind: 'player', stored: players[0], expected: zero },
+      { kind: 'deck', stored: decks[0], expected: zero },
+      { kind: 'deck', stored: decks[1], expected: zero }
+    ]));
+
+    expect(report.failed).toEqual(['Deck "Kinnan"']);
+    expect(report.restored).toEqual(['Player "Ethan"', 'Deck "Atraxa"']);
+    expect(JSON.stringify({ players, decks })).toBe(before);
+  });
+});
@@ -0,0 +1,366 @@
+import { Injectable, inject } from '@angular/core';
+import { catchError, forkJoin, map, Observable, of, switchMap } from 'rxjs';
+import { PlayerService } from './player.service';
+import { DeckService } from './deck.service';
+import { CounterUpdateService } from './counter-update.service';
+import { filterMatchesByFormat, isCasualFormat, toMatchSeats } from './api.adapter';
+import { Player } from '../shared/models/player.model';
+import { Deck } from '../shared/models/deck.model';
+import { Match, MatchResult } from '../shared/models/match.model';
+import { FormatFilter, StatCounters } from '../shared/models/stats.model';
+
+export interface MatchDelta {
+  playersById: Map<number, StatCounters>;
+  playersByName: Map<string, StatCounters>;
+  decksByName: Map<string, StatCounters>;
+}
+
+export interface StatsUpdateReport {
+  updated: string[];
+  failed: string[];
+  restored: string[];
+  restoreFailed: string[];
+}
+
+export type StatsCorrection =
+  | { kind: 'player'; stored: Player; expected: StatCounters }
+  | { kind: 'deck'; stored: Deck; expected: StatCounters };
+
+export interface RebuiltStats {
+  players: Player[];
+  decks: Deck[];
+}
+
+interface PendingUpdate {
+  label: string;
+  update: () => Observable<unknown>;
+  restore: () => Observable<unknown>;
+}
+
+const EMPTY_COUNTERS: StatCounters = { wins: 0, losses: 0, ties: 0, casualWins: 0, casualLosses: 0 };
+
+/**
+ * Owns the player and deck counters that a match contributes. `apply` and
+ * `revert` push the same delta with opposite signs, so saving a match and
+ * deleting it again leaves every counter where it started. `replace` pushes
+ * only the difference between an edited match and its previous version.
+ *
+ * Updates are all-or-nothing from the caller's point of view: if any PUT
+ * fails, the ones that succeeded are undone with the opposite delta and the
+ * returned report says what happened to each target.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class StatsLedgerService {
+  private playerService = inject(PlayerService);
+  private deckService = inject(DeckService);
+  private counterUpdates = inject(CounterUpdateService);
+
+  apply(match: Match): Observable<StatsUpdateReport> {
+    return this.push(this.buildDelta(match), 1);
+  }
+
+  revert(match: Match): Observable<StatsUpdateReport> {
+    return this.push(this.buildDelta(match), -1);
+  }
+
+  replace(previous: Match, next: Match): Observable<StatsUpdateReport> {
+    const delta = this.buildDelta(next);
+    const previousDelta = this.buildDelta(previous);
+    const subtract = <K>(target: Map<K, StatCounters>, source: Map<K, StatCounters>) =>
+      source.forEach((counters, key) => this.bump(target, key, this.scaleDelta(counters, -1)));
+
+    subtract(delta.playersById, previousDelta.playersById);
+    subtract(delta.playersByName, previousDelta.playersByName);
+    subtract(delta.decksByName, previousDelta.decksByName);
+    return this.push(delta, 1);
+  }
+
+  buildDelta(match: Match): MatchDelta {
+    const delta: MatchDelta = {
+      playersById: new Map(),
+      playersByName: new Map(),
+      decksByName: new Map()
+    };
+
+    toMatchSeats(match).forEach((seat) => {
+      if (!seat.result) {
+        return;
+      }
+
+      const seatDelta = this.buildSeatDelta(seat.result, isCasualFormat(seat.format ?? match.format));
+
+      if (seat.playerId !== undefined) {
+        this.bump(delta.playersById, seat.playerId, seatDelta);
+      } else if (seat.playerName) {
+        this.bump(delta.playersByName, seat.playerName.toLowerCase(), seatDelta);
+      }
+
+      if (seat.deckName) {
+        this.bump(delta.decksByName, seat.deckName.toLowerCase(), seatDelta);
+      }
+    });
+
+    return delta;
+  }
+
+  rebuild(matches: Match[], players: Player[], decks: Deck[]): RebuiltStats {
+    const playerTotals = new Map<number, StatCounters>();
+    const deckTotals = new Map<string, StatCounters>();
+
+    matches.forEach((match) => {
+      const delta = this.buildDelta(match);
+      delta.playersById.forEach((counters, playerId) => this.bump(playerTotals, playerId, counters));
+      delta.playersByName.forEach((counters, playerName) => {
+        const player = players.find((item) => item.playerName.toLowerCase() === playerName);
+        if (player?.playerId !== undefined) {
+          this.bump(playerTotals, player.playerId, counters);
+        }
+      });
+      delta.decksByName.forEach((counters, deckName) => this.bump(deckTotals, deckName, counters));
+    });
+
+    return {
+      players: players.map((player) => ({
+        ...player,
+        ...((player.playerId !== undefined ? playerTotals.get(player.playerId) : undefined) ?? EMPTY_COUNTERS)
+      })),
+      decks: decks.map((deck) => ({
+        ...deck,
+        ...(deckTotals.get(deck.deckName.toLowerCase()) ?? EMPTY_COUNTERS)
+      }))
+    };
+  }
+
+  /**
+   * Rebuilds counters from the seats played in one format only. The API keeps
+   * casual results apart but has no cEDH-only counters, so per-format
+   * standings have to come from match history.
+   */
+  rebuildForFormat(
+    matches: Match[],
+    players: Player[],
+    decks: Deck[],
+    format: FormatFilter
+  ): RebuiltStats {
+    return this.rebuild(filterMatchesByFormat(matches, format), players, decks);
+  }
+
+  /**
+   * Standings for a format filter. 'all' keeps the stored counters, which also
+   * hold results recorded before match logging existed, so it need not equal
+   * casual plus cEDH. Pass `null` while the history is loading to get the
+   * stored rows. Rows with no games in the chosen format are dropped.
+   */
+  standingsForFormat(
+    matches: Match[] | null,
+    players: Player[],
+    decks: Deck[],
+    format: FormatFilter
+  ): RebuiltStats {
+    if (format === 'all' || matches === null) {
+      return { players, decks };
+    }
+
+    const rebuilt = this.rebuildForFormat(matches, players, decks, format);
+    return {
+      players: rebuilt.players.filter((player) => this.hasGames(player)),
+      decks: rebuilt.decks.filter((deck) => this.hasGames(deck))
+    };
+  }
+
+  /**
+   * Writes rebuilt counters over the stored ones. A partial failure puts the
+   * rows that were already written back to their stored values.
+   */
+  overwrite(corrections: StatsCorrection[]): Observable<StatsUpdateReport> {
+    return this.runAll(
+      corrections.flatMap((correction): PendingUpdate[] => {
+        if (correction.kind === 'deck') {
+          const deckName = correction.stored.deckName;
+          return [
+            {
+              label: `Deck "${deckName}"`,
+              update: () => this.counterUpdates.setDeckCounters(deckName, correction.expected),
+              restore: () => this.counterUpdates.setDeckCounters(deckName, correction.stored)
+            }
+          ];
+        }
+
+        const playerId = correction.stored.playerId;
+        if (playerId === undefined) {
+          return [];
+        }
+        return [
+          {
+            label: `Player "${correction.stored.playerName}"`,
+            update: () => this.counterUpdates.setPlayerCounters(playerId, correction.expected),
+            restore: () => this.counterUpdates.setPlayerCounters(playerId, correction.stored)
+          }
+        ];
+      })
+    );
+  }
+
+  private push(delta: MatchDelta, sign: 1 | -1): Observable<StatsUpdateReport> {
+    if (delta.playersById.size === 0 && delta.playersByName.size === 0 && delta.decksByName.size === 0) {
+      return of(this.emptyReport());
+    }
+
+    return forkJoin([
+      this.playerService.getAll(),
+      this.deckService.getAll()
+    ]).pipe(
+      switchMap(([players, decks]) => {
+        const playerDeltas = new Map<number, { player: Player; delta: StatCounters }>();
+        const addPlayer = (player: Player | undefined, counters: StatCounters) => {
+          if (!player || player.playerId === undefined) {
+            return;
+          }
+          const existing = playerDeltas.get(player.playerId);
+          playerDeltas.set(player.playerId, {
+            player,
+            delta: existing ? this.mergeDelta(existing.delta, counters) : counters
+          });
+        };
+
+        delta.playersById.forEach((counters, playerId) =>
+          addPlayer(players.find((player) => player.playerId === playerId), counters)
+        );
+        delta.playersByName.forEach((counters, playerName) =>
+          addPlayer(players.find((player) => player.playerName.toLowerCase() === playerName), counters)
+        );
+
+        const pending: PendingUpdate[] = [];
+
+        playerDeltas.forEach((entry, playerId) => {
+          if (this.isZero(entry.delta)) {
+            return;
+          }
+          pending.push({
+            label: `Player "${entry.player.playerName}"`,
+            update: () => this.counterUpdates.adjustPlayer(playerId, this.scaleDelta(entry.delta, sign)),
+            restore: () => this.counterUpdates.adjustPlayer(playerId, this.scaleDelta(entry.delta, -sign))
+          });
+        });
+
+        delta.decksByName.forEach((counters, deckName) => {
+          const deck = decks.find((item) => item.deckName.toLowerCase() === deckName);
+          if (deck && !this.isZero(counters)) {
+            pending.push({
+              label: `Deck "${deck.deckName}"`,
+              update: () => this.counterUpdates.adjustDeck(deck.deckName, this.scaleDelta(counters, sign)),
+              restore: () => this.counterUpdates.adjustDeck(deck.deckName, this.scaleDelta(counters, -sign))
+            });
+          }
+        });
+
+        return this.runAll(pending);
+      })
+    );
+  }
+
+  private runAll(pending: PendingUpdate[]): Observable<StatsUpdateReport> {
+    if (pending.length === 0) {
+      return of(this.emptyReport());
+    }
+
+    return this.settle(pending.map((item) => item.update())).pipe(
+      switchMap((outcomes) => {
+        const updated = pending.filter((_item, index) => outcomes[index]);
+        const failed = pending.filter((_item, index) => !outcomes[index]);
+        const report: StatsUpdateReport = {
+          updated: updated.map((item) => item.label),
+          failed: failed.map((item) => item.label),
+          restored: [],
+          restoreFailed: []
+        };
+
+        if (failed.length === 0 || updated.length === 0) {
+          return of(report);
+        }
+
+        return this.settle(updated.map((item) => item.restore())).pipe(
+          map((restoreOutcomes) => ({
+            ...report,
+            updated: [],
+            restored: updated.filter((_item, index) => restoreOutcomes[index]).map((item) => item.label),
+            restoreFailed: updated.filter((_item, index) => !restoreOutcomes[index]).map((item) => item.label)
+          }))
+        );
+      })
+    );
+  }
+
+  private settle(requests: Observable<unknown>[]): Observable<boolean[]> {
+    return forkJoin(
+      requests.map((request) =>
+        request.pipe(
+          map(() => true),
+          catchError(() => of(false))
+        )
+      )
+    );
+  }
+
+  private hasGames(counters: StatCounters): boolean {
+    return counters.wins + counters.losses + counters.ties > 0;
+  }
+
+  private emptyReport(): StatsUpdateReport {
+    return { updated: [], failed: [], restored: [], restoreFailed: [] };
+  }
+
+  private buildSeatDelta(result: MatchResult, isCasual: boolean): StatCounters {
+    const delta: StatCounters = { ...EMPTY_COUNTERS };
+
+    if (result === 'tie') {
+      delta.ties = 1;
+      return delta;
+    }
+
+    if (result === 'win') {
+      delta.wins = 1;
+      if (isCasual) {
+        delta.casualWins = 1;
+      }
+      return delta;
+    }
+
+    delta.losses = 1;
+    if (isCasual) {
+      delta.casualLosses = 1;
+    }
+    return delta;
+  }
+
+  private bump<K>(map: Map<K, StatCounters>, key: K, delta: StatCounters): void {
+    const existing = map.get(key);
+    map.set(key, existing ? this.mergeDelta(existing, delta) : { ...delta });
+  }
+
+  private mergeDelta(base: StatCounters, add: StatCounters): StatCounters {
+    return {
+      wins: base.wins + add.wins,
+      losses: base.losses + add.losses,
+      ties: base.ties + add.ties,
+      casualWins: base.casualWins + add.casualWins,
+      casualLosses: base.casualLosses + add.casualLosses
+    };
+  }
+
+  private isZero(delta: StatCounters): boolean {
+    return !delta.wins && !delta.losses && !delta.ties && !delta.casualWins && !delta.casualLosses;
+  }
+
+  private scaleDelta(delta: StatCounters, sign: number): StatCounters {
+    return {
+      wins: sign * delta.wins,
+      losses: sign * delta.losses,
+      ties: sign * delta.ties,
+      casualWins: sign * delta.casualWins,
+      casualLosses: sign * delta.casualLosses
+    };
+  }
+}
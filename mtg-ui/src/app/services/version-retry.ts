@@ -0,0 +1,25 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { Observable, catchError, defer, throwError } from 'rxjs';
+
+const MAX_ATTEMPTS = 4;
+
+/**
+ * Runs a read-then-write attempt again while the API answers 409 or 412, so a
+ * write sent with `If-Match` starts over from the latest version.
+ */
+export function retryOnConflict<T>(
+  attempt: () => Observable<T>,
+  remaining = MAX_ATTEMPTS
+): Observable<T> {
+  return defer(attempt).pipe(
+    catchError((error: unknown) =>
+      isConflict(error) && remaining > 1
+        ? retryOnConflict(attempt, remaining - 1)
+        : throwError(() => error)
+    )
+  );
+}
+
+function isConflict(error: unknown): boolean {
+  return error instanceof HttpErrorResponse && (error.status === 409 || error.status === 412);
+}
@@ -0,0 +1,102 @@
+import { Component, computed, inject, input, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { takeUntilDestroyed, toObservable } from '@angular/core/rxjs-interop';
+import {
+  Observable,
+  catchError,
+  debounceTime,
+  defer,
+  distinctUntilChanged,
+  finalize,
+  map,
+  of,
+  switchMap
+} from 'rxjs';
+import { CardService } from '../../../services/card.service';
+import { NotificationService } from '../../../services/notification.service';
+import { matchesCardQuery, parseCardQuery } from '../../../services/card-query';
+import { Card } from '../../models/card.model';
+
+const DEBOUNCE_MS = 250;
+
+@Component({
+  selector: 'app-card-search',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './card-search.component.html',
+  styleUrls: ['./card-search.component.scss']
+})
+export class CardSearchComponent {
+  private cardService = inject(CardService);
+  private notifications = inject(NotificationService);
+
+  placeholder = input('Search, e.g. sol ring or type:creature mv<=3 set:CMR');
+  limit = input(10);
+  cardSelected = output<Card>();
+
+  query = signal('');
+  results = signal<Card[]>([]);
+  isSearching = signal(false);
+  isOpen = signal(false);
+  queryErrors = computed(() => parseCardQuery(this.query()).errors);
+
+  constructor() {
+    toObservable(this.query)
+      .pipe(
+        debounceTime(DEBOUNCE_MS),
+        map((value) => value.trim()),
+        distinctUntilChanged(),
+        switchMap((value) => this.search(value)),
+        takeUntilDestroyed()
+      )
+      .subscribe((cards) => {
+        this.results.set(cards);
+        this.isOpen.set(this.query().trim() !== '');
+      });
+  }
+
+  select(card: Card): void {
+    this.cardSelected.emit(card);
+    this.query.set('');
+    this.results.set([]);
+    this.isOpen.set(false);
+  }
+
+  selectFirst(event: Event): void {
+    event.preventDefault();
+    const first = this.results()[0];
+    if (first) {
+      this.select(first);
+    }
+  }
+
+  close(): void {
+    this.isOpen.set(false);
+  }
+
+  private search(value: string): Observable<Card[]> {
+    if (!value) {
+      return of([]);
+    }
+
+    const query = parseCardQuery(value);
+    if (query.errors.length > 0) {
+      return of([]);
+    }
+
+    return defer(() => {
+      this.isSearching.set(true);
+      const source = query.text ? this.cardService.search(query.text) : this.cardService.getAll();
+      return source.pipe(
+        map((cards) =>
+          (cards ?? []).filter((card) => matchesCardQuery(card, query)).slice(0, this.limit())
+        ),
+        catchError((error) => {
+          this.notifications.error('Card search failed', error);
+          return of([]);
+        }),
+        finalize(() => this.isSearching.set(false))
+      );
+    });
+  }
+}
@@ -0,0 +1,14 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { NotificationService } from '../../../services/notification.service';
+
+@Component({
+  selector: 'app-toast-list',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './toast-list.component.html',
+  styleUrls: ['./toast-list.component.scss']
+})
+export class ToastListComponent {
+  notifications = inject(NotificationService);
+}
@@ -0,0 +1,34 @@
+import { Directive, TemplateRef, ViewContainerRef, effect, inject, input } from '@angular/core';
+import { AuthService } from '../../services/auth.service';
+import { UserRole } from '../models/auth.model';
+
+/**
+ * Renders its element only when the signed-in user has the given role:
+ * `<button *appIfRole="'admin'">Delete</button>`.
+ */
+@Directive({
+  selector: '[appIfRole]',
+  standalone: true
+})
+export class IfRoleDirective {
+  private templateRef = inject(TemplateRef<unknown>);
+  private viewContainer = inject(ViewContainerRef);
+  private auth = inject(AuthService);
+
+  readonly appIfRole = input.required<UserRole>();
+
+  private hasView = false;
+
+  constructor() {
+    effect(() => {
+      const allowed = this.auth.hasRole(this.appIfRole());
+      if (allowed && !this.hasView) {
+        this.viewContainer.createEmbeddedView(this.templateRef);
+        this.hasView = true;
+      } else if (!allowed && this.hasView) {
+        this.viewContainer.clear();
+        this.hasView = false;
+      }
+    });
+  }
+}
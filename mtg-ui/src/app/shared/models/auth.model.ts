@@ -0,0 +1,7 @@
+export type UserRole = 'admin' | 'viewer';
+
+export interface AuthSession {
+  token: string;
+  username: string;
+  role: UserRole;
+}
@@ -7,4 +7,5 @@ export interface Card {
   manaValue: number;
   price: number;
   stock: number;
+  colorIdentity?: string[];
 }
\ No newline at end of file
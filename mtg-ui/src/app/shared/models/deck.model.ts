@@ -0,0 +1,16 @@
+import { StatCounters } from './stats.model';
+
+export interface DeckCard {
+  cardNumber: number;
+  setName: string;
+  quantity: number;
+  commander: boolean;
+}
+
+export interface Deck extends StatCounters {
+  deckId?: number;
+  deckName: string;
+  ownerId?: number;
+  version?: string;
+  cards?: DeckCard[];
+}
@@ -0,0 +1,29 @@
+export type MatchResult = 'win' | 'loss' | 'tie';
+
+export interface MatchSeat {
+  seat: number;
+  playerId?: number;
+  playerName?: string;
+  deckName?: string;
+  result: MatchResult | null;
+  placement?: number;
+  format?: string;
+}
+
+export interface Match {
+  matchId?: number;
+  playerId?: number;
+  deckName?: string;
+  winnerName?: string;
+  format?: string;
+  playerWin?: boolean;
+  opponentOne?: string;
+  opponentOneDeck?: string;
+  opponentTwo?: string;
+  opponentTwoDeck?: string;
+  opponentThree?: string;
+  opponentThreeDeck?: string;
+  result?: string;
+  playedAt?: string;
+  seats?: MatchSeat[];
+}
@@ -0,0 +1,7 @@
+import { StatCounters } from './stats.model';
+
+export interface Player extends StatCounters {
+  playerId?: number;
+  playerName: string;
+  version?: string;
+}
@@ -0,0 +1,9 @@
+export type FormatFilter = 'all' | 'casual' | 'cedh';
+
+export interface StatCounters {
+  wins: number;
+  losses: number;
+  ties: number;
+  casualWins: number;
+  casualLosses: number;
+}
@@ -0,0 +1,82 @@
+import {
+  MockData,
+  MockRole,
+  RESOURCES,
+  authorize,
+  createCard,
+  createRecord,
+  emptyMockData,
+  login,
+  updateCard,
+  updateRecord
+} from './mock-api-store';
+
+describe('mock-api-store', () => {
+  const player = RESOURCES.find((resource) => resource.collection === 'player')!;
+  let data: MockData;
+
+  beforeEach(() => {
+    data = emptyMockData();
+  });
+
+  it('creates a record with zeroed counters, an id and the first version', () => {
+    const result = createRecord(data, player, { playerName: 'Ethan', version: 9 });
+
+    expect(result.status).toBe(201);
+    expect(result.version).toBe(1);
+    expect(result.body).toEqual(
+      jasmine.objectContaining({ playerName: 'Ethan', playerID: 1, wins: 0, version: 1 })
+    );
+    expect(createRecord(data, player, { playerName: 'ethan' }).status).toBe(409);
+    expect(createRecord(data, player, { playerName: ' ' }).status).toBe(400);
+  });
+
+  it('updates a record by id or name and bumps its version', () => {
+    createRecord(data, player, { playerName: 'Ethan' });
+
+    const result = updateRecord(data, player, 'ethan', { wins: 3, playerID: 7 }, '"1"');
+
+    expect(result.status).toBe(200);
+    expect(result.body).toEqual(jasmine.objectContaining({ wins: 3, playerID: 1, version: 2 }));
+    expect(updateRecord(data, player, '1', { wins: 4 }, undefined).version).toBe(3);
+    expect(updateRecord(data, player, 'Sam', { wins: 1 }, undefined).status).toBe(404);
+  });
+
+  it('rejects an update sent with a stale If-Match version', () => {
+    createRecord(data, player, { playerName: 'Ethan' });
+    updateRecord(data, player, '1', { wins: 1 }, '1');
+
+    const result = updateRecord(data, player, '1', { wins: 5 }, '1');
+
+    expect(result.status).toBe(412);
+    expect(data.player[0]).toEqual(jasmine.objectContaining({ wins: 1, version: 2 }));
+  });
+
+  it('keeps a card keyed by number and set on create and update', () => {
+    const card = { cardNumber: 472, setName: 'CMR', cardName: 'Sol Ring' };
+
+    expect(createCard(data, card).status).toBe(201);
+    expect(createCard(data, { ...card, setName: 'cmr' }).status).toBe(409);
+    expect(updateCard(data, '472', 'cmr', { price: 2, setName: 'C21' }, '"1"').body).toEqual(
+      jasmine.objectContaining({ setName: 'CMR', price: 2, version: 2 })
+    );
+    expect(updateCard(data, '472', 'CMR', { price: 3 }, '"1"').status).toBe(412);
+  });
+
+  it('issues tokens on login and checks them on every other request', () => {
+    const tokens = new Map<string, MockRole>();
+    const admin = login(tokens, { username: 'ethan', password: 'pw' }).body as { token: string };
+    const viewer = login(tokens, { username: 'Viewer Sam', password: 'pw' }).body as {
+      token: string;
+      role: MockRole;
+    };
+
+    expect(login(tokens, { username: 'ethan', password: '' }).status).toBe(401);
+    expect(viewer.role).toBe('viewer');
+    expect(authorize(tokens, undefined, 'GET')?.status).toBe(401);
+    expect(authorize(tokens, 'Bearer not-a-token', 'GET')?.status).toBe(401);
+    expect(authorize(tokens, `Bearer ${admin.token}`, 'PUT')).toBeNull();
+    expect(authorize(tokens, `Bearer ${viewer.token}`, 'GET')).toBeNull();
+    expect(authorize(tokens, `Bearer ${viewer.token}`, 'DELETE')?.status).toBe(403);
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * The records and rules behind the mock API, with no Express or Node imports
+ * so they can be tested like the rest of the app. `mock-api.ts` maps its
+ * routes onto these functions and writes the data file after a change.
+ */
+
+export type MockRecord = Record<string, unknown> & { version: number };
+
+export type MockRole = 'admin' | 'viewer';
+
+export interface MockData {
+  player: MockRecord[];
+  deck: MockRecord[];
+  match: MockRecord[];
+  card: MockRecord[];
+}
+
+export interface KeyedResource {
+  collection: 'player' | 'deck' | 'match';
+  label: string;
+  idKey: string;
+  nameKey?: string;
+  defaults: Record<string, unknown>;
+}
+
+/** What a route should answer; `version` becomes the `ETag` header. */
+export interface MockResult {
+  status: number;
+  body?: unknown;
+  version?: number;
+}
+
+const COUNTERS = { wins: 0, losses: 0, ties: 0, casualWins: 0, casualLosses: 0 };
+
+export const RESOURCES: KeyedResource[] = [
+  { collection: 'player', label: 'Player', idKey: 'playerID', nameKey: 'playerName', defaults: COUNTERS },
+  { collection: 'deck', label: 'Deck', idKey: 'deckID', nameKey: 'deckName', defaults: COUNTERS },
+  { collection: 'match', label: 'Match', idKey: 'matchID', defaults: {} }
+];
+
+export function emptyMockData(): MockData {
+  return { player: [], deck: [], match: [], card: [] };
+}
+
+/**
+ * Any non-empty username and password can log in. Usernames starting with
+ * "viewer" get the viewer role; everyone else is an admin.
+ */
+export function login(tokens: Map<string, MockRole>, body: unknown): MockResult {
+  const { username, password } = (body ?? {}) as Record<string, unknown>;
+  const hasCredentials =
+    typeof username === 'string' && username.trim() !== '' && typeof password === 'string' && password !== '';
+  if (!hasCredentials) {
+    return { status: 401, body: { message: 'Username and password are required.' } };
+  }
+
+  const name = String(username).trim();
+  const role: MockRole = name.toLowerCase().startsWith('viewer') ? 'viewer' : 'admin';
+  const token = crypto.randomUUID();
+  tokens.set(token, role);
+  return { status: 200, body: { token, username: name, role } };
+}
+
+/** The error to answer with, or `null` when the request may go ahead. */
+export function authorize(
+  tokens: Map<string, MockRole>,
+  authorization: string | undefined,
+  method: string
+): MockResult | null {
+  const token = authorization?.replace(/^Bearer\s+/i, '');
+  const role = token ? tokens.get(token) : undefined;
+  if (!role) {
+    return { status: 401, body: { message: 'Log in to use the API.' } };
+  }
+  if (role !== 'admin' && method !== 'GET') {
+    return { status: 403, body: { message: 'Viewers cannot change data.' } };
+  }
+  return null;
+}
+
+export function getRecord(data: MockData, resource: KeyedResource, key: string): MockResult {
+  const record = findRecord(data, resource, key);
+  return record ? found(record) : notFound(resource.label, key);
+}
+
+export function createRecord(data: MockData, resource: KeyedResource, body: unknown): MockResult {
+  const fields = withoutVersion(body);
+  const name = resource.nameKey ? fields[resource.nameKey] : undefined;
+  if (resource.nameKey && (typeof name !== 'string' || name.trim() === '')) {
+    return { status: 400, body: { message: `${resource.label} needs a ${resource.nameKey}.` } };
+  }
+  if (typeof name === 'string' && findRecord(data, resource, name)) {
+    return { status: 409, body: { message: `${resource.label} "${name}" already exists.` } };
+  }
+
+  const records = data[resource.collection];
+  const record: MockRecord = {
+    ...resource.defaults,
+    ...fields,
+    [resource.idKey]: nextId(records, resource.idKey),
+    version: 1
+  };
+  records.push(record);
+  return { ...found(record), status: 201 };
+}
+
+export function updateRecord(
+  data: MockData,
+  resource: KeyedResource,
+  key: string,
+  body: unknown,
+  ifMatch: string | undefined
+): MockResult {
+  const existing = findRecord(data, resource, key);
+  if (!existing) {
+    return notFound(resource.label, key);
+  }
+  if (!versionMatches(ifMatch, existing)) {
+    return changedElsewhere(resource.label);
+  }
+
+  const record: MockRecord = {
+    ...existing,
+    ...withoutVersion(body),
+    [resource.idKey]: existing[resource.idKey],
+    version: existing.version + 1
+  };
+  data[resource.collection] = data[resource.collection].map((item) =>
+    item === existing ? record : item
+  );
+  return found(record);
+}
+
+export function deleteRecord(data: MockData, resource: KeyedResource, key: string): MockResult {
+  const existing = findRecord(data, resource, key);
+  if (!existing) {
+    return notFound(resource.label, key);
+  }
+  data[resource.collection] = data[resource.collection].filter((item) => item !== existing);
+  return { status: 204 };
+}
+
+export function searchCards(data: MockData, query: string): MockRecord[] {
+  const text = query.trim().toLowerCase();
+  return data.card.filter((card) => String(card['cardName']).toLowerCase().includes(text));
+}
+
+export function getCard(data: MockData, cardNumber: string, setName: string): MockResult {
+  const card = findCard(data, cardNumber, setName);
+  return card ? found(card) : notFound('Card', `${cardNumber}/${setName}`);
+}
+
+export function createCard(data: MockData, body: unknown): MockResult {
+  const fields = withoutVersion(body);
+  if (fields['cardNumber'] === undefined || !fields['setName']) {
+    return { status: 400, body: { message: 'Card needs a cardNumber and setName.' } };
+  }
+  if (findCard(data, String(fields['cardNumber']), String(fields['setName']))) {
+    return {
+      status: 409,
+      body: { message: `Card ${fields['cardNumber']}/${fields['setName']} already exists.` }
+    };
+  }
+
+  const card: MockRecord = { ...fields, version: 1 };
+  data.card.push(card);
+  return { ...found(card), status: 201 };
+}
+
+export function updateCard(
+  data: MockData,
+  cardNumber: string,
+  setName: string,
+  body: unknown,
+  ifMatch: string | undefined
+): MockResult {
+  const existing = findCard(data, cardNumber, setName);
+  if (!existing) {
+    return notFound('Card', `${cardNumber}/${setName}`);
+  }
+  if (!versionMatches(ifMatch, existing)) {
+    return changedElsewhere('Card');
+  }
+
+  const card: MockRecord = {
+    ...existing,
+    ...withoutVersion(body),
+    cardNumber: existing['cardNumber'],
+    setName: existing['setName'],
+    version: existing.version + 1
+  };
+  data.card = data.card.map((item) => (item === existing ? card : item));
+  return found(card);
+}
+
+export function deleteCard(data: MockData, cardNumber: string, setName: string): MockResult {
+  const existing = findCard(data, cardNumber, setName);
+  if (!existing) {
+    return notFound('Card', `${cardNumber}/${setName}`);
+  }
+  data.card = data.card.filter((item) => item !== existing);
+  return { status: 204 };
+}
+
+function findRecord(data: MockData, resource: KeyedResource, key: string): MockRecord | undefined {
+  return data[resource.collection].find((record) => matchesKey(record, key, resource));
+}
+
+function findCard(data: MockData, cardNumber: string, setName: string): MockRecord | undefined {
+  return data.card.find(
+    (card) =>
+      String(card['cardNumber']) === cardNumber &&
+      String(card['setName']).toLowerCase() === setName.toLowerCase()
+  );
+}
+
+function matchesKey(record: MockRecord, key: string, resource: KeyedResource): boolean {
+  if (String(record[resource.idKey]) === key) {
+    return true;
+  }
+  const name = resource.nameKey ? record[resource.nameKey] : undefined;
+  return typeof name === 'string' && name.trim().toLowerCase() === key.trim().toLowerCase();
+}
+
+function nextId(records: MockRecord[], idKey: string): number {
+  return records.reduce((max, record) => Math.max(max, Number(record[idKey]) || 0), 0) + 1;
+}
+
+function versionMatches(ifMatch: string | undefined, record: MockRecord): boolean {
+  return !ifMatch || ifMatch.replace(/"/g, '') === String(record.version);
+}
+
+function withoutVersion(body: unknown): Record<string, unknown> {
+  const { version: _version, ...rest } = (body ?? {}) as Record<string, unknown>;
+  return rest;
+}
+
+function found(record: MockRecord): MockResult {
+  return { status: 200, body: record, version: record.version };
+}
+
+function notFound(label: string, key: string): MockResult {
+  return { status: 404, body: { message: `${label} ${key} was not found.` } };
+}
+
+function changedElsewhere(label: string): MockResult {
+  return { status: 412, body: { message: `${label} was changed by someone else.` } };
+}
@@ -0,0 +1,158 @@
+import express, { Request, Response, Router } from 'express';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import {
+  KeyedResource,
+  MockData,
+  MockResult,
+  MockRole,
+  RESOURCES,
+  authorize,
+  createCard,
+  createRecord,
+  deleteCard,
+  deleteRecord,
+  emptyMockData,
+  getCard,
+  getRecord,
+  login,
+  searchCards,
+  updateCard,
+  updateRecord
+} from './mock-api-store';
+
+/**
+ * A stand-in for the Java API behind `proxy.conf.js`, mounted at `/api` when
+ * the server is started with `MOCK_API=true`. It answers the same routes with
+ * the same field names, keeps everything in one JSON file, and honours
+ * `If-Match` against a per-record version the way the real API does.
+ *
+ * Viewers can only read. Issued tokens are only kept in memory, so restarting
+ * the server signs everyone out. The rules themselves live in
+ * `mock-api-store.ts`; this file only routes requests and saves the file.
+ */
+export function createMockApi(dataFile: string): Router {
+  const data = loadData(dataFile);
+  const save = () => writeFileSync(dataFile, JSON.stringify(data, null, 2));
+  const write = (res: Response, result: MockResult) => {
+    if (result.status < 300) {
+      save();
+    }
+    send(res, result);
+  };
+  const router = express.Router();
+
+  router.use(express.json());
+  registerAuth(router);
+
+  RESOURCES.forEach((resource) => registerKeyedResource(router, data, write, resource));
+  registerCards(router, data, write);
+
+  router.use((req: Request, res: Response) => {
+    res.status(404).json({ message: `No mock route for ${req.method} ${req.originalUrl}` });
+  });
+
+  return router;
+}
+
+type Write = (res: Response, result: MockResult) => void;
+
+function registerAuth(router: Router): void {
+  const tokens = new Map<string, MockRole>();
+
+  router.post('/auth/login', (req, res) => {
+    send(res, login(tokens, req.body));
+  });
+
+  router.use((req: Request, res: Response, next) => {
+    const denied = authorize(tokens, req.get('Authorization'), req.method);
+    if (denied) {
+      send(res, denied);
+      return;
+    }
+    next();
+  });
+}
+
+function registerKeyedResource(
+  router: Router,
+  data: MockData,
+  write: Write,
+  resource: KeyedResource
+): void {
+  const path = `/${resource.collection}`;
+
+  router.get(path, (_req, res) => {
+    res.json(data[resource.collection]);
+  });
+
+  router.get(`${path}/:key`, (req, res) => {
+    send(res, getRecord(data, resource, req.params['key']));
+  });
+
+  router.post(path, (req, res) => {
+    write(res, createRecord(data, resource, req.body));
+  });
+
+  router.put(`${path}/:key`, (req, res) => {
+    write(res, updateRecord(data, resource, req.params['key'], req.body, req.get('If-Match')));
+  });
+
+  router.delete(`${path}/:key`, (req, res) => {
+    write(res, deleteRecord(data, resource, req.params['key']));
+  });
+}
+
+function registerCards(router: Router, data: MockData, write: Write): void {
+  router.get('/card', (_req, res) => {
+    res.json(data.card);
+  });
+
+  router.get('/card/search', (req, res) => {
+    res.json(searchCards(data, String(req.query['q'] ?? '')));
+  });
+
+  router.get('/card/:cardNumber/:setName', (req, res) => {
+    send(res, getCard(data, req.params['cardNumber'], req.params['setName']));
+  });
+
+  router.post('/card', (req, res) => {
+    write(res, createCard(data, req.body));
+  });
+
+  router.put('/card/:cardNumber/:setName', (req, res) => {
+    const { cardNumber, setName } = req.params;
+    write(res, updateCard(data, cardNumber, setName, req.body, req.get('If-Match')));
+  });
+
+  router.delete('/card/:cardNumber/:setName', (req, res) => {
+    write(res, deleteCard(data, req.params['cardNumber'], req.params['setName']));
+  });
+}
+
+function loadData(dataFile: string): MockData {
+  const empty = emptyMockData();
+  if (!existsSync(dataFile)) {
+    writeFileSync(dataFile, JSON.stringify(empty, null, 2));
+    return empty;
+  }
+
+  const stored = JSON.parse(readFileSync(dataFile, 'utf8')) as Partial<MockData>;
+  return {
+    player: stored.player ?? [],
+    deck: stored.deck ?? [],
+    match: stored.match ?? [],
+    card: stored.card ?? []
+  };
+}
+
+function send(res: Response, result: MockResult): void {
+  if (result.version !== undefined) {
+    res.set('ETag', String(result.version));
+  }
+  res.status(result.status);
+  if (result.body === undefined) {
+    res.end();
+  } else {
+    res.json(result.body);
+  }
+}
@@ -5,7 +5,8 @@ import {
   writeResponseToNodeResponse,
 } from '@angular/ssr/node';
 import express from 'express';
-import { join } from 'node:path';
+import { join, resolve } from 'node:path';
+import { createMockApi } from './mock-api';
 
 const browserDistFolder = join(import.meta.dirname, '../browser');
 
@@ -13,16 +14,17 @@ const app = express();
 const angularApp = new AngularNodeAppEngine();
 
 /**
- * Example Express Rest API endpoints can be defined here.
- * Uncomment and define endpoints as necessary.
- *
- * Example:
- * ```ts
- * app.get('/api/{*splat}', (req, res) => {
- *   // Handle API request
- * });
- * ```
+ * Serve a local mock of the API from a JSON file when `MOCK_API=true`.
+ * The file defaults to `mock-api.json` in the working directory and can be
+ * moved with `MOCK_API_FILE`.
  */
+const mockApiFile =
+  process.env['MOCK_API'] === 'true'
+    ? resolve(process.env['MOCK_API_FILE'] || 'mock-api.json')
+    : null;
+if (mockApiFile) {
+  app.use('/api', createMockApi(mockApiFile));
+}
 
 /**
  * Serve static files from /browser
@@ -58,7 +60,8 @@ if (isMainModule(import.meta.url) || process.env['pm_id']) {
       throw error;
     }
 
-    console.log(`Node Express server listening on http://localhost:${port}`);
+    const mockNote = mockApiFile ? ` (mock API from ${mockApiFile})` : '';
+    console.log(`Node Express server listening on http://localhost:${port}${mockNote}`);
   });
 }
 